@@ -1,9 +1,13 @@
 import * as cdk from 'aws-cdk-lib';
 import { StripeFunctionsStack } from '../lib/stripe-stack';
 
+// Same stage and region variables as the stack and the scripts, which look the
+// stack up as StripeBackendStack-<stage>. STACK_NAME (from .env.<stage>) keeps
+// the name of a stack deployed before the name followed ENV_STAGE.
 const app = new cdk.App();
-new StripeFunctionsStack(app, `StripeBackendStack-${process.env.stage || 'dev'}`, {
+const stackName = process.env.STACK_NAME || `StripeBackendStack-${process.env.ENV_STAGE || 'dev'}`;
+new StripeFunctionsStack(app, stackName, {
   env: {
-    region: process.env.AWS_REIGON,
+    region: process.env.AWS_REGION || 'us-east-1',
   },
 });
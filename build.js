@@ -13,6 +13,9 @@ const baseConfig = {
     '@aws-sdk/client-cloudformation',
     '@aws-sdk/client-lambda',
     '@aws-sdk/client-cognito-identity-provider',
+    '@aws-sdk/client-eventbridge',
+    '@aws-sdk/client-sqs',
+    '@aws-sdk/client-secrets-manager',
   ],
   format: 'cjs',
 };
@@ -32,6 +35,49 @@ async function buildFunctions() {
       outfile: 'dist/manage/manage-subscription.js',
     });
 
+    // Build plan change functions
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/subscription/preview-plan-change.ts'],
+      outfile: 'dist/subscription/preview-plan-change.js',
+    });
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/subscription/change-plan.ts'],
+      outfile: 'dist/subscription/change-plan.js',
+    });
+
+    // Build cancel, reactivate and pause functions
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/subscription/cancel-subscription.ts'],
+      outfile: 'dist/subscription/cancel-subscription.js',
+    });
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/subscription/reactivate-subscription.ts'],
+      outfile: 'dist/subscription/reactivate-subscription.js',
+    });
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/subscription/pause-subscription.ts'],
+      outfile: 'dist/subscription/pause-subscription.js',
+    });
+
+    // Build entitlements function
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/entitlements/get-entitlements.ts'],
+      outfile: 'dist/entitlements/get-entitlements.js',
+    });
+
+    // Build invoices function
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/invoices/list-invoices.ts'],
+      outfile: 'dist/invoices/list-invoices.js',
+    });
+
     // Build webhook function
     await esbuild.build({
       ...baseConfig,
@@ -46,6 +92,20 @@ async function buildFunctions() {
       outfile: 'dist/sync/sync-stripe-data.js',
     });
 
+    // Build dunning function
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/dunning/process-dunning.ts'],
+      outfile: 'dist/dunning/process-dunning.js',
+    });
+
+    // Build reconciliation function
+    await esbuild.build({
+      ...baseConfig,
+      entryPoints: ['src/reconcile/reconcile-stripe-data.ts'],
+      outfile: 'dist/reconcile/reconcile-stripe-data.js',
+    });
+
     console.log('Build completed successfully');
   } catch (error) {
     console.error('Build failed:', error);
@@ -4,6 +4,28 @@ import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import path from "path";
 import * as dotenv from "dotenv";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as events from "aws-cdk-lib/aws-events";
+import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as subscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as cloudwatchActions from "aws-cdk-lib/aws-cloudwatch-actions";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as cognito from "aws-cdk-lib/aws-cognito";
+import { SqsEventSource } from "aws-cdk-lib/aws-lambda-event-sources";
+import {
+  planPriceIds,
+  type CatalogPlan,
+  type PriceCatalog,
+} from "../src/checkout/price-catalog";
+import type {
+  EntitlementConfig,
+  Entitlements,
+} from "../src/entitlements/entitlements";
+import { METRICS_NAMESPACE, type MetricName } from "../src/shared/metrics";
+import { stripeSecretNames } from "../src/shared/secret-names";
 
 // Determine the environment
 const environment = process.env.ENV_STAGE || "dev"; // Default to 'development'
@@ -17,13 +39,12 @@ if (environment === "prod") {
   console.log("Loading development environment variables");
 }
 
-// Validate environment variables
+// Validate environment variables. The Stripe keys are not among them: they live
+// in Secrets Manager (npm run stripe-secrets) and never reach the template.
 const requiredEnvVars = [
-  "STRIPE_SECRET_KEY",
   "STRIPE_PRICE_ID",
   "APP_URL",
   "CUSTOMER_TABLE",
-  "STRIPE_WEBHOOK_SECRET",
   "COGNITO_USER_POOL_ID",
 ] as const;
 
@@ -33,11 +54,183 @@ requiredEnvVars.forEach((envVar) => {
   }
 });
 
+// Plans the checkout endpoint is allowed to sell, per environment. Clients send
+// the plan key (and optionally interval/quantity); price IDs never leave the server.
+// Optional prices come from the environment file so each stage can point at its
+// own Stripe account.
+const priceCatalogs: Record<string, PriceCatalog> = {
+  dev: {
+    defaultPlan: "standard",
+    plans: {
+      standard: {
+        prices: {
+          month: process.env.STRIPE_PRICE_ID!,
+          year: process.env.STRIPE_ANNUAL_PRICE_ID,
+        },
+        defaultInterval: "month",
+        maxQuantity: 1,
+        trialDays: 14,
+        trialRequiresPaymentMethod: false,
+        allowPromotionCodes: true,
+      },
+      team: {
+        prices: {
+          month: process.env.STRIPE_TEAM_PRICE_ID,
+          year: process.env.STRIPE_TEAM_ANNUAL_PRICE_ID,
+        },
+        defaultInterval: "month",
+        maxQuantity: 100,
+        trialDays: 14,
+        allowPromotionCodes: true,
+      },
+      credits: {
+        mode: "payment",
+        price: process.env.STRIPE_CREDITS_PRICE_ID,
+        maxQuantity: 10,
+      },
+      lifetime: {
+        mode: "payment",
+        price: process.env.STRIPE_LIFETIME_PRICE_ID,
+        maxQuantity: 1,
+        allowPromotionCodes: true,
+      },
+    },
+  },
+  prod: {
+    defaultPlan: "standard",
+    plans: {
+      standard: {
+        prices: {
+          month: process.env.STRIPE_PRICE_ID!,
+          year: process.env.STRIPE_ANNUAL_PRICE_ID,
+        },
+        defaultInterval: "month",
+        maxQuantity: 1,
+        trialDays: 14,
+        trialRequiresPaymentMethod: false,
+        allowPromotionCodes: true,
+      },
+      team: {
+        prices: {
+          month: process.env.STRIPE_TEAM_PRICE_ID,
+          year: process.env.STRIPE_TEAM_ANNUAL_PRICE_ID,
+        },
+        defaultInterval: "month",
+        maxQuantity: 50,
+        trialDays: 14,
+      },
+      credits: {
+        mode: "payment",
+        price: process.env.STRIPE_CREDITS_PRICE_ID,
+        maxQuantity: 10,
+      },
+      lifetime: {
+        mode: "payment",
+        price: process.env.STRIPE_LIFETIME_PRICE_ID,
+        maxQuantity: 1,
+        allowPromotionCodes: true,
+      },
+    },
+  },
+};
+
+// Drops plans that have no price configured in this environment
+function pricedPlans(catalog: PriceCatalog): PriceCatalog {
+  const plans: Record<string, CatalogPlan> = {};
+  for (const [key, plan] of Object.entries(catalog.plans)) {
+    if (planPriceIds(plan).length > 0) {
+      plans[key] = plan;
+    }
+  }
+  return { ...catalog, plans };
+}
+
+const priceCatalog = pricedPlans(priceCatalogs[environment] ?? priceCatalogs.dev);
+
+// Features and limits each catalog plan unlocks. Expanded into one rule per price
+// so monthly and annual prices of a plan grant the same thing. Products can also
+// grant entitlements through their Stripe metadata (see src/entitlements/entitlements.ts).
+const planEntitlements: Record<string, Entitlements> = {
+  standard: { features: ["premium"], limits: { projects: 10 } },
+  team: {
+    features: ["premium", "team_management"],
+    limits: { projects: 100 },
+  },
+  lifetime: { features: ["premium"], limits: { projects: 10 } },
+};
+
+const entitlementConfig: EntitlementConfig = {
+  rules: Object.entries(priceCatalog.plans).flatMap(([plan, details]) =>
+    planPriceIds(details).map((priceId) => ({
+      priceId,
+      ...(planEntitlements[plan] ?? { features: [], limits: {} }),
+    })),
+  ),
+};
+
+// Failed-payment handling: days of access kept after the first failure, and
+// the days (after the first failure) on which reminders are sent
+const dunningSettings: Record<string, { graceDays: number; reminderDays: number[] }> = {
+  dev: { graceDays: 3, reminderDays: [1, 2] },
+  prod: { graceDays: 7, reminderDays: [1, 3, 5] },
+};
+const dunning = dunningSettings[environment] ?? dunningSettings.dev;
+
+// When the Stripe/DynamoDB reconciliation job runs (UTC), and whether it resyncs
+// drifted customers or only reports them
+const reconciliationSettings: Record<
+  string,
+  { schedule: events.CronOptions; repair: boolean }
+> = {
+  dev: { schedule: { minute: "0", hour: "4", weekDay: "MON" }, repair: true },
+  prod: { schedule: { minute: "0", hour: "4" }, repair: true },
+};
+const reconciliation =
+  reconciliationSettings[environment] ?? reconciliationSettings.dev;
+
+// Log verbosity, and how many failures within 5 minutes raise an alarm
+const monitoringSettings: Record<
+  string,
+  {
+    logLevel: "debug" | "info" | "warn" | "error";
+    syncFailureThreshold: number;
+    signatureFailureThreshold: number;
+  }
+> = {
+  dev: { logLevel: "debug", syncFailureThreshold: 10, signatureFailureThreshold: 20 },
+  prod: { logLevel: "info", syncFailureThreshold: 5, signatureFailureThreshold: 10 },
+};
+const monitoring = monitoringSettings[environment] ?? monitoringSettings.dev;
+
+// Browser origins allowed to call the API. The first one is also used for error
+// responses that API Gateway generates itself.
+const corsSettings: Record<string, string[]> = {
+  dev: [process.env.APP_URL!, "http://localhost:3000"],
+  prod: [process.env.APP_URL!],
+};
+const corsOrigins = corsSettings[environment] ?? corsSettings.dev;
+
+// Paths in the app the billing portal may send customers back to
+// (src/manage/portal-flows.ts). The first one is the default.
+const portalReturnPaths: Record<string, string[]> = {
+  dev: ["/settings", "/billing", "/pricing"],
+  prod: ["/settings", "/billing", "/pricing"],
+};
+const returnPaths = portalReturnPaths[environment] ?? portalReturnPaths.dev;
+
 export class StripeFunctionsStack extends cdk.Stack {
   public readonly checkoutFunction: string;
   public readonly webhookFunction: string;
   public readonly syncFunction: string;
   public readonly manageBillingFunction: string;
+  public readonly previewPlanChangeFunction: string;
+  public readonly changePlanFunction: string;
+  public readonly cancelSubscriptionFunction: string;
+  public readonly reactivateSubscriptionFunction: string;
+  public readonly pauseSubscriptionFunction: string;
+  public readonly entitlementsFunction: string;
+  public readonly invoicesFunction: string;
+  public readonly reconciliationFunction: string;
 
   constructor(scope: cdk.App, id: string, props?: cdk.StackProps) {
     super(scope, id, props);
@@ -63,47 +256,285 @@ export class StripeFunctionsStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // Sparse index of customers in dunning, used by the scheduled dunning job
+    customersTable.addGlobalSecondaryIndex({
+      indexName: "dunning-index",
+      partitionKey: {
+        name: "dunningStatus",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "dunningGraceEndsAt",
+        type: dynamodb.AttributeType.NUMBER,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // One row per Stripe subscription, so customers with several subscriptions
+    // (add-ons, a canceled sub next to an active one) can be queried by userId
+    const subscriptionsTable = new dynamodb.Table(this, "StripeSubscriptions", {
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "subscriptionId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy:
+        environment === "prod"
+          ? cdk.RemovalPolicy.RETAIN
+          : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Completed one-time purchases, keyed by userId + Checkout Session ID
+    const purchasesTable = new dynamodb.Table(this, "StripePurchases", {
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "purchaseId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy:
+        environment === "prod"
+          ? cdk.RemovalPolicy.RETAIN
+          : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Per-user invoice cache maintained from webhook events
+    const invoicesTable = new dynamodb.Table(this, "StripeInvoices", {
+      partitionKey: { name: "userId", type: dynamodb.AttributeType.STRING },
+      sortKey: { name: "invoiceId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy:
+        environment === "prod"
+          ? cdk.RemovalPolicy.RETAIN
+          : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Lists a user's invoices newest first
+    invoicesTable.addLocalSecondaryIndex({
+      indexName: "created-index",
+      sortKey: { name: "created", type: dynamodb.AttributeType.NUMBER },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Ledger of received webhook events, used to skip duplicates and to replay failures
+    const webhookEventsTable = new dynamodb.Table(this, "StripeWebhookEvents", {
+      partitionKey: { name: "eventId", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy:
+        environment === "prod"
+          ? cdk.RemovalPolicy.RETAIN
+          : cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Lets the replay script find every event received in a time window
+    webhookEventsTable.addGlobalSecondaryIndex({
+      indexName: "receivedDate-index",
+      partitionKey: {
+        name: "receivedDate",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: { name: "receivedAt", type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Notifications and domain events for our app and other services
+    // (trial ending, dunning, subscription changes)
+    const eventBus = new events.EventBus(this, "StripeEventBus", {
+      eventBusName: `stripe-backend-${environment}`,
+    });
+
+    // Operational alarms are sent here. Set ALARM_EMAIL to get them by email.
+    const alarmTopic = new sns.Topic(this, "StripeAlarms");
+    if (process.env.ALARM_EMAIL) {
+      alarmTopic.addSubscription(
+        new subscriptions.EmailSubscription(process.env.ALARM_EMAIL),
+      );
+    }
+
+    // Verified webhook events wait here for the sync function. Messages that keep
+    // failing end up in the dead-letter queue (see scripts/redrive-webhook-events.ts).
+    const webhookDeadLetterQueue = new sqs.Queue(
+      this,
+      "StripeWebhookDeadLetterQueue",
+      {
+        retentionPeriod: cdk.Duration.days(14),
+      },
+    );
+    const webhookQueue = new sqs.Queue(this, "StripeWebhookQueue", {
+      // Six times the sync timeout, as recommended for Lambda consumers
+      visibilityTimeout: cdk.Duration.minutes(6),
+      retentionPeriod: cdk.Duration.days(4),
+      deadLetterQueue: {
+        queue: webhookDeadLetterQueue,
+        maxReceiveCount: 5,
+      },
+    });
+
+    // Anything in the DLQ is an event we have given up on
+    new cloudwatch.Alarm(this, "StripeWebhookDeadLetterAlarm", {
+      alarmDescription: "Stripe webhook events were moved to the dead-letter queue",
+      metric: webhookDeadLetterQueue.metricApproximateNumberOfMessagesVisible({
+        period: cdk.Duration.minutes(1),
+        statistic: cloudwatch.Stats.MAXIMUM,
+      }),
+      threshold: 1,
+      evaluationPeriods: 1,
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    }).addAlarmAction(new cloudwatchActions.SnsAction(alarmTopic));
+
+    // Events waiting this long mean the sync function is failing or falling behind
+    new cloudwatch.Alarm(this, "StripeWebhookQueueAgeAlarm", {
+      alarmDescription: "Stripe webhook events have been waiting for over 15 minutes",
+      metric: webhookQueue.metricApproximateAgeOfOldestMessage({
+        period: cdk.Duration.minutes(5),
+        statistic: cloudwatch.Stats.MAXIMUM,
+      }),
+      threshold: 15 * 60,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    }).addAlarmAction(new cloudwatchActions.SnsAction(alarmTopic));
+
+    // Stripe credentials. Functions get the name of each secret they may read and
+    // fetch it at cold start (src/shared/secrets.ts).
+    const secretNames = stripeSecretNames(environment);
+    const stripeSecretKey = secretsmanager.Secret.fromSecretNameV2(
+      this,
+      "StripeSecretKey",
+      secretNames.secretKey,
+    );
+    const stripeWebhookSecrets = secretsmanager.Secret.fromSecretNameV2(
+      this,
+      "StripeWebhookSecrets",
+      secretNames.webhookSecrets,
+    );
+
     // Create Lambda functions
     const checkoutFunction = new lambda.Function(this, "StripeCheckout", {
       runtime: lambda.Runtime.NODEJS_18_X,
-      handler: "checkout/create-checkout.handler",
+      handler: "create-checkout.handler",
       code: lambda.Code.fromAsset(path.join(__dirname, "../dist/checkout")),
       environment: {
-        STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY!,
-        STRIPE_PRICE_ID: process.env.STRIPE_PRICE_ID!,
+        STRIPE_SECRET_KEY_SECRET_ID: secretNames.secretKey,
+        PRICE_CATALOG: JSON.stringify(priceCatalog),
         APP_URL: process.env.APP_URL!,
+        CORS_ALLOWED_ORIGINS: corsOrigins.join(","),
         CUSTOMER_TABLE: customersTable.tableName,
+        // For the billing portal link returned to existing subscribers
+        PORTAL_RETURN_PATHS: returnPaths.join(","),
+        STRIPE_PORTAL_CONFIGURATION_ID:
+          process.env.STRIPE_PORTAL_CONFIGURATION_ID || "",
       },
     });
     // Grant DynamoDB permissions to checkout function
     customersTable.grantReadWriteData(checkoutFunction);
+    stripeSecretKey.grantRead(checkoutFunction);
 
     const manageBillingFunction = new lambda.Function(
       this,
       "StripeManageBilling",
       {
         runtime: lambda.Runtime.NODEJS_18_X,
-        handler: "manage/manage-subscription.handler",
+        handler: "manage-subscription.handler",
         code: lambda.Code.fromAsset(path.join(__dirname, "../dist/manage")),
         environment: {
-          STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY!,
+          STRIPE_SECRET_KEY_SECRET_ID: secretNames.secretKey,
           APP_URL: process.env.APP_URL!,
           CUSTOMER_TABLE: customersTable.tableName,
+          CORS_ALLOWED_ORIGINS: corsOrigins.join(","),
+          PRICE_CATALOG: JSON.stringify(priceCatalog),
+          PORTAL_RETURN_PATHS: returnPaths.join(","),
+          // Created by scripts/billing-portal.ts; empty uses the default portal
+          STRIPE_PORTAL_CONFIGURATION_ID:
+            process.env.STRIPE_PORTAL_CONFIGURATION_ID || "",
         },
       },
     );
     // This function only needs read
     customersTable.grantReadData(manageBillingFunction);
+    stripeSecretKey.grantRead(manageBillingFunction);
+
+    // In-app plan changes (src/subscription/plan-changes.ts)
+    const previewPlanChangeFunction = new lambda.Function(
+      this,
+      "StripePreviewPlanChange",
+      {
+        runtime: lambda.Runtime.NODEJS_18_X,
+        handler: "preview-plan-change.handler",
+        code: lambda.Code.fromAsset(path.join(__dirname, "../dist/subscription")),
+        environment: {
+          STRIPE_SECRET_KEY_SECRET_ID: secretNames.secretKey,
+          PRICE_CATALOG: JSON.stringify(priceCatalog),
+          CUSTOMER_TABLE: customersTable.tableName,
+          CORS_ALLOWED_ORIGINS: corsOrigins.join(","),
+        },
+      },
+    );
+    customersTable.grantReadData(previewPlanChangeFunction);
+    stripeSecretKey.grantRead(previewPlanChangeFunction);
+
+    const changePlanFunction = new lambda.Function(this, "StripeChangePlan", {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: "change-plan.handler",
+      code: lambda.Code.fromAsset(path.join(__dirname, "../dist/subscription")),
+      environment: {
+        STRIPE_SECRET_KEY_SECRET_ID: secretNames.secretKey,
+        PRICE_CATALOG: JSON.stringify(priceCatalog),
+        CUSTOMER_TABLE: customersTable.tableName,
+        CORS_ALLOWED_ORIGINS: corsOrigins.join(","),
+      },
+    });
+    // The record is updated by sync once Stripe reports the change
+    customersTable.grantReadData(changePlanFunction);
+    stripeSecretKey.grantRead(changePlanFunction);
+
+    const entitlementsFunction = new lambda.Function(
+      this,
+      "StripeEntitlements",
+      {
+        runtime: lambda.Runtime.NODEJS_18_X,
+        handler: "get-entitlements.handler",
+        code: lambda.Code.fromAsset(
+          path.join(__dirname, "../dist/entitlements"),
+        ),
+        environment: {
+          CUSTOMER_TABLE: customersTable.tableName,
+          CORS_ALLOWED_ORIGINS: corsOrigins.join(","),
+        },
+      },
+    );
+    // Entitlements are resolved by sync; this function only reads them
+    customersTable.grantReadData(entitlementsFunction);
+
+    const invoicesFunction = new lambda.Function(this, "StripeListInvoices", {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: "list-invoices.handler",
+      code: lambda.Code.fromAsset(path.join(__dirname, "../dist/invoices")),
+      environment: {
+        INVOICES_TABLE: invoicesTable.tableName,
+        CORS_ALLOWED_ORIGINS: corsOrigins.join(","),
+      },
+    });
+    // Webhook processing maintains the cache; this function only reads it
+    invoicesTable.grantReadData(invoicesFunction);
 
     const syncFunction = new lambda.Function(this, "SyncStripeDataToKV", {
       runtime: lambda.Runtime.NODEJS_18_X,
-      handler: "sync/sync-stripe-data.handler",
-      timeout: cdk.Duration.seconds(10),
+      handler: "sync-stripe-data.handler",
+      // Covers a full queue batch, which is processed one event at a time
+      timeout: cdk.Duration.minutes(1),
       code: lambda.Code.fromAsset(path.join(__dirname, "../dist/sync")),
       environment: {
-        STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY!,
+        STRIPE_SECRET_KEY_SECRET_ID: secretNames.secretKey,
         CUSTOMER_TABLE: customersTable.tableName,
+        SUBSCRIPTIONS_TABLE: subscriptionsTable.tableName,
+        PURCHASES_TABLE: purchasesTable.tableName,
+        EVENTS_TABLE: webhookEventsTable.tableName,
+        ENTITLEMENTS_CONFIG: JSON.stringify(entitlementConfig),
+        EVENT_BUS_NAME: eventBus.eventBusName,
+        INVOICES_TABLE: invoicesTable.tableName,
+        WEBHOOK_QUEUE_URL: webhookQueue.queueUrl,
+        DUNNING_GRACE_DAYS: dunning.graceDays.toString(),
         COGNITO_USER_POOL_ID: process.env.COGNITO_USER_POOL_ID!,
+        CORS_ALLOWED_ORIGINS: corsOrigins.join(","),
       },
     });
 
@@ -118,30 +549,424 @@ export class StripeFunctionsStack extends cdk.Stack {
     );
     // Grant DynamoDB permissions to sync function
     customersTable.grantReadWriteData(syncFunction);
+    subscriptionsTable.grantReadWriteData(syncFunction);
+    // Webhook events are applied by sync: purchases, invoice cache, dunning state
+    purchasesTable.grantReadWriteData(syncFunction);
+    invoicesTable.grantReadWriteData(syncFunction);
+    // Allow the sync function to publish subscription-changed events and notifications
+    eventBus.grantPutEventsTo(syncFunction);
+    webhookEventsTable.grantReadWriteData(syncFunction);
+    stripeSecretKey.grantRead(syncFunction);
+
+    // Consume webhook events. Failed records are reported individually and retried
+    // with backoff by the function (it also needs to change message visibility).
+    syncFunction.addEventSource(
+      new SqsEventSource(webhookQueue, {
+        batchSize: 5,
+        maxBatchingWindow: cdk.Duration.seconds(1),
+        reportBatchItemFailures: true,
+        maxConcurrency: 5,
+      }),
+    );
+
+    // In-app cancel, reactivate and pause (src/subscription/subscription-actions.ts).
+    // Each waits for a sync of the user before responding.
+    const subscriptionActionEnvironment = {
+      STRIPE_SECRET_KEY_SECRET_ID: secretNames.secretKey,
+      CUSTOMER_TABLE: customersTable.tableName,
+      STRIPE_SYNC_FUNCTION_NAME: syncFunction.functionName,
+      CORS_ALLOWED_ORIGINS: corsOrigins.join(","),
+    };
+    const cancelSubscriptionFunction = new lambda.Function(
+      this,
+      "StripeCancelSubscription",
+      {
+        runtime: lambda.Runtime.NODEJS_18_X,
+        handler: "cancel-subscription.handler",
+        // Stays under the API Gateway limit while leaving room for the sync
+        timeout: cdk.Duration.seconds(25),
+        code: lambda.Code.fromAsset(path.join(__dirname, "../dist/subscription")),
+        environment: subscriptionActionEnvironment,
+      },
+    );
+    const reactivateSubscriptionFunction = new lambda.Function(
+      this,
+      "StripeReactivateSubscription",
+      {
+        runtime: lambda.Runtime.NODEJS_18_X,
+        handler: "reactivate-subscription.handler",
+        timeout: cdk.Duration.seconds(25),
+        code: lambda.Code.fromAsset(path.join(__dirname, "../dist/subscription")),
+        environment: subscriptionActionEnvironment,
+      },
+    );
+    const pauseSubscriptionFunction = new lambda.Function(
+      this,
+      "StripePauseSubscription",
+      {
+        runtime: lambda.Runtime.NODEJS_18_X,
+        handler: "pause-subscription.handler",
+        timeout: cdk.Duration.seconds(25),
+        code: lambda.Code.fromAsset(path.join(__dirname, "../dist/subscription")),
+        environment: subscriptionActionEnvironment,
+      },
+    );
+    // Cancel stores the survey answers on the customer record
+    customersTable.grantReadWriteData(cancelSubscriptionFunction);
+    customersTable.grantReadData(reactivateSubscriptionFunction);
+    customersTable.grantReadData(pauseSubscriptionFunction);
+    for (const fn of [
+      cancelSubscriptionFunction,
+      reactivateSubscriptionFunction,
+      pauseSubscriptionFunction,
+    ]) {
+      stripeSecretKey.grantRead(fn);
+      syncFunction.grantInvoke(fn);
+    }
 
     const webhookFunction = new lambda.Function(this, "StripeWebhook", {
       runtime: lambda.Runtime.NODEJS_18_X,
-      handler: "webhook/stripe-webhook.handler",
+      handler: "stripe-webhook.handler",
       code: lambda.Code.fromAsset(path.join(__dirname, "../dist/webhook")),
       timeout: cdk.Duration.seconds(10),
       environment: {
-        STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY!,
-        STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET!,
-        STRIPE_SYNC_FUNCTION_NAME: syncFunction.functionName,
+        STRIPE_WEBHOOK_SECRETS_SECRET_ID: secretNames.webhookSecrets,
+        EVENTS_TABLE: webhookEventsTable.tableName,
+        WEBHOOK_QUEUE_URL: webhookQueue.queueUrl,
+      },
+    });
+
+    // The webhook function only records events in the ledger and queues them.
+    // Verifying signatures needs the signing secrets but not the API key.
+    webhookEventsTable.grantReadWriteData(webhookFunction);
+    webhookQueue.grantSendMessages(webhookFunction);
+    stripeWebhookSecrets.grantRead(webhookFunction);
+
+    // Sends dunning reminders and ends expired grace periods
+    const dunningFunction = new lambda.Function(this, "StripeDunning", {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: "process-dunning.handler",
+      code: lambda.Code.fromAsset(path.join(__dirname, "../dist/dunning")),
+      timeout: cdk.Duration.minutes(5),
+      environment: {
         CUSTOMER_TABLE: customersTable.tableName,
+        EVENT_BUS_NAME: eventBus.eventBusName,
+        STRIPE_SYNC_FUNCTION_NAME: syncFunction.functionName,
+        DUNNING_REMINDER_DAYS: dunning.reminderDays.join(","),
+      },
+    });
+    customersTable.grantReadWriteData(dunningFunction);
+    eventBus.grantPutEventsTo(dunningFunction);
+    syncFunction.grantInvoke(dunningFunction);
+
+    new events.Rule(this, "StripeDunningSchedule", {
+      schedule: events.Schedule.rate(cdk.Duration.hours(1)),
+      targets: [new targets.LambdaFunction(dunningFunction)],
+    });
+
+    // Compares Stripe with the customer table and reports (or repairs) drift
+    const reconciliationFunction = new lambda.Function(
+      this,
+      "StripeReconciliation",
+      {
+        runtime: lambda.Runtime.NODEJS_18_X,
+        handler: "reconcile-stripe-data.handler",
+        code: lambda.Code.fromAsset(path.join(__dirname, "../dist/reconcile")),
+        timeout: cdk.Duration.minutes(15),
+        memorySize: 512,
+        environment: {
+          STRIPE_SECRET_KEY_SECRET_ID: secretNames.secretKey,
+          CUSTOMER_TABLE: customersTable.tableName,
+          EVENT_BUS_NAME: eventBus.eventBusName,
+          STRIPE_SYNC_FUNCTION_NAME: syncFunction.functionName,
+        },
       },
+    );
+    customersTable.grantReadData(reconciliationFunction);
+    stripeSecretKey.grantRead(reconciliationFunction);
+    eventBus.grantPutEventsTo(reconciliationFunction);
+    // Repairs go through the sync function
+    syncFunction.grantInvoke(reconciliationFunction);
+
+    new events.Rule(this, "StripeReconciliationSchedule", {
+      schedule: events.Schedule.cron(reconciliation.schedule),
+      targets: [
+        new targets.LambdaFunction(reconciliationFunction, {
+          event: events.RuleTargetInput.fromObject({
+            repair: reconciliation.repair,
+          }),
+        }),
+      ],
     });
 
-    // Allow webhook handling function to invoke sync function
-    syncFunction.grantInvoke(webhookFunction);
-    // Allow the webhook function to read from the customers table
-    customersTable.grantReadData(webhookFunction);
+    // The /subscription/* REST API. Set API_ID to keep using an API managed outside
+    // this stack instead; scripts/update-api-arns.ts points it at these functions.
+    let api: apigateway.RestApi | undefined;
+    if (!process.env.API_ID) {
+      api = new apigateway.RestApi(this, "StripeApi", {
+        restApiName: `stripe-backend-${environment}`,
+        deployOptions: { stageName: environment },
+      });
+
+      const authorizer = new apigateway.CognitoUserPoolsAuthorizer(
+        this,
+        "StripeApiAuthorizer",
+        {
+          cognitoUserPools: [
+            cognito.UserPool.fromUserPoolId(
+              this,
+              "StripeUserPool",
+              process.env.COGNITO_USER_POOL_ID!,
+            ),
+          ],
+        },
+      );
+      const authenticated: apigateway.MethodOptions = {
+        authorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+      };
+
+      // Rejections by the authorizer need CORS headers too, or the browser
+      // reports a CORS error instead of the 401
+      const gatewayCorsHeaders = {
+        "Access-Control-Allow-Origin": `'${corsOrigins[0]}'`,
+        "Access-Control-Allow-Credentials": "'true'",
+      };
+      api.addGatewayResponse("StripeApiDefault4xx", {
+        type: apigateway.ResponseType.DEFAULT_4XX,
+        responseHeaders: gatewayCorsHeaders,
+      });
+      api.addGatewayResponse("StripeApiDefault5xx", {
+        type: apigateway.ResponseType.DEFAULT_5XX,
+        responseHeaders: gatewayCorsHeaders,
+      });
+
+      const subscription = api.root.addResource("subscription", {
+        defaultCorsPreflightOptions: {
+          allowOrigins: corsOrigins,
+          allowMethods: ["GET", "POST", "OPTIONS"],
+          allowHeaders: ["Content-Type", "Authorization"],
+          allowCredentials: true,
+        },
+      });
+
+      subscription
+        .addResource("checkout")
+        .addMethod(
+          "POST",
+          new apigateway.LambdaIntegration(checkoutFunction),
+          authenticated,
+        );
+      subscription
+        .addResource("manage")
+        .addMethod(
+          "POST",
+          new apigateway.LambdaIntegration(manageBillingFunction),
+          authenticated,
+        );
+      subscription
+        .addResource("sync")
+        .addMethod(
+          "POST",
+          new apigateway.LambdaIntegration(syncFunction),
+          authenticated,
+        );
+      const changePlan = subscription.addResource("change-plan");
+      changePlan.addMethod(
+        "POST",
+        new apigateway.LambdaIntegration(changePlanFunction),
+        authenticated,
+      );
+      changePlan
+        .addResource("preview")
+        .addMethod(
+          "POST",
+          new apigateway.LambdaIntegration(previewPlanChangeFunction),
+          authenticated,
+        );
+      subscription
+        .addResource("cancel")
+        .addMethod(
+          "POST",
+          new apigateway.LambdaIntegration(cancelSubscriptionFunction),
+          authenticated,
+        );
+      subscription
+        .addResource("reactivate")
+        .addMethod(
+          "POST",
+          new apigateway.LambdaIntegration(reactivateSubscriptionFunction),
+          authenticated,
+        );
+      subscription
+        .addResource("pause")
+        .addMethod(
+          "POST",
+          new apigateway.LambdaIntegration(pauseSubscriptionFunction),
+          authenticated,
+        );
+      subscription
+        .addResource("entitlements")
+        .addMethod(
+          "GET",
+          new apigateway.LambdaIntegration(entitlementsFunction),
+          authenticated,
+        );
+      subscription
+        .addResource("invoices")
+        .addMethod(
+          "GET",
+          new apigateway.LambdaIntegration(invoicesFunction),
+          authenticated,
+        );
+
+      // Stripe signs webhook requests; there is no user to authorize
+      subscription
+        .addResource("webhook")
+        .addMethod("POST", new apigateway.LambdaIntegration(webhookFunction));
+    }
+
+    // Structured logs and metrics (src/shared/logger.ts, src/shared/metrics.ts)
+    const functions: Record<string, lambda.Function> = {
+      Checkout: checkoutFunction,
+      ManageBilling: manageBillingFunction,
+      PreviewPlanChange: previewPlanChangeFunction,
+      ChangePlan: changePlanFunction,
+      CancelSubscription: cancelSubscriptionFunction,
+      ReactivateSubscription: reactivateSubscriptionFunction,
+      PauseSubscription: pauseSubscriptionFunction,
+      Entitlements: entitlementsFunction,
+      Invoices: invoicesFunction,
+      Webhook: webhookFunction,
+      Sync: syncFunction,
+      Dunning: dunningFunction,
+      Reconciliation: reconciliationFunction,
+    };
+    for (const fn of Object.values(functions)) {
+      fn.addEnvironment("LOG_LEVEL", monitoring.logLevel);
+      fn.addEnvironment("METRICS_ENVIRONMENT", environment);
+    }
+
+    const businessMetric = (metricName: MetricName) =>
+      new cloudwatch.Metric({
+        namespace: METRICS_NAMESPACE,
+        metricName,
+        dimensionsMap: { Environment: environment },
+        statistic: cloudwatch.Stats.SUM,
+        period: cdk.Duration.minutes(5),
+      });
+
+    // Sync failures are retried from the queue, so only a sustained rate is alarming
+    new cloudwatch.Alarm(this, "StripeSyncFailureAlarm", {
+      alarmDescription: "Stripe syncs are failing",
+      metric: businessMetric("SyncFailed"),
+      threshold: monitoring.syncFailureThreshold,
+      evaluationPeriods: 1,
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    }).addAlarmAction(new cloudwatchActions.SnsAction(alarmTopic));
+
+    // Usually a rotated or misconfigured signing secret; otherwise someone probing the endpoint
+    new cloudwatch.Alarm(this, "StripeWebhookSignatureAlarm", {
+      alarmDescription: "Stripe webhook requests are failing signature verification",
+      metric: businessMetric("WebhookSignatureFailed"),
+      threshold: monitoring.signatureFailureThreshold,
+      evaluationPeriods: 1,
+      comparisonOperator:
+        cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+    }).addAlarmAction(new cloudwatchActions.SnsAction(alarmTopic));
+
+    // Handlers return errors as responses, so any Lambda error is an unhandled one
+    for (const [name, fn] of Object.entries(functions)) {
+      new cloudwatch.Alarm(this, `Stripe${name}ErrorAlarm`, {
+        alarmDescription: `The ${name} function is throwing errors`,
+        metric: fn.metricErrors({ period: cdk.Duration.minutes(5) }),
+        threshold: 1,
+        evaluationPeriods: 1,
+        comparisonOperator:
+          cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }).addAlarmAction(new cloudwatchActions.SnsAction(alarmTopic));
+    }
+
+    const dashboard = new cloudwatch.Dashboard(this, "StripeDashboard", {
+      dashboardName: `stripe-backend-${environment}`,
+    });
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "Checkout and billing portal",
+        left: [
+          businessMetric("CheckoutSessionCreated"),
+          businessMetric("CheckoutFailed"),
+          businessMetric("PortalSessionCreated"),
+          businessMetric("PortalSessionFailed"),
+        ],
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Sync outcomes",
+        left: [
+          businessMetric("SyncSucceeded"),
+          businessMetric("SyncStale"),
+          businessMetric("SyncFailed"),
+          businessMetric("SubscriptionEventsPublishFailed"),
+        ],
+        width: 12,
+      }),
+    );
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "Webhook queue",
+        left: [
+          webhookQueue.metricApproximateNumberOfMessagesVisible(),
+          webhookDeadLetterQueue.metricApproximateNumberOfMessagesVisible(),
+        ],
+        right: [webhookQueue.metricApproximateAgeOfOldestMessage()],
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Webhook signature failures",
+        left: [businessMetric("WebhookSignatureFailed")],
+        width: 12,
+      }),
+    );
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "Function errors",
+        left: Object.entries(functions).map(([name, fn]) =>
+          fn.metricErrors({ label: name, period: cdk.Duration.minutes(5) }),
+        ),
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Function duration (p95)",
+        left: Object.entries(functions).map(([name, fn]) =>
+          fn.metricDuration({
+            label: name,
+            statistic: "p95",
+            period: cdk.Duration.minutes(5),
+          }),
+        ),
+        width: 12,
+      }),
+    );
 
     // Store function ARNs
     this.checkoutFunction = checkoutFunction.functionArn;
     this.webhookFunction = webhookFunction.functionArn;
     this.syncFunction = syncFunction.functionArn;
     this.manageBillingFunction = manageBillingFunction.functionArn;
+    this.previewPlanChangeFunction = previewPlanChangeFunction.functionArn;
+    this.changePlanFunction = changePlanFunction.functionArn;
+    this.cancelSubscriptionFunction = cancelSubscriptionFunction.functionArn;
+    this.reactivateSubscriptionFunction =
+      reactivateSubscriptionFunction.functionArn;
+    this.pauseSubscriptionFunction = pauseSubscriptionFunction.functionArn;
+    this.entitlementsFunction = entitlementsFunction.functionArn;
+    this.invoicesFunction = invoicesFunction.functionArn;
+    this.reconciliationFunction = reconciliationFunction.functionArn;
 
     // Add outputs
     new cdk.CfnOutput(this, `CheckoutFunction`, {
@@ -154,6 +979,41 @@ export class StripeFunctionsStack extends cdk.Stack {
       exportName: `manageBillingFunction-${environment}`,
     });
 
+    new cdk.CfnOutput(this, `PreviewPlanChangeFunction`, {
+      value: this.previewPlanChangeFunction,
+      exportName: `previewPlanChangeFunction-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `ChangePlanFunction`, {
+      value: this.changePlanFunction,
+      exportName: `changePlanFunction-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `CancelSubscriptionFunction`, {
+      value: this.cancelSubscriptionFunction,
+      exportName: `cancelSubscriptionFunction-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `ReactivateSubscriptionFunction`, {
+      value: this.reactivateSubscriptionFunction,
+      exportName: `reactivateSubscriptionFunction-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `PauseSubscriptionFunction`, {
+      value: this.pauseSubscriptionFunction,
+      exportName: `pauseSubscriptionFunction-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `EntitlementsFunction`, {
+      value: this.entitlementsFunction,
+      exportName: `entitlementsFunction-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `InvoicesFunction`, {
+      value: this.invoicesFunction,
+      exportName: `invoicesFunction-${environment}`,
+    });
+
     new cdk.CfnOutput(this, `WebhookFunction`, {
       value: this.webhookFunction,
       exportName: `webhookFunction-${environment}`,
@@ -168,5 +1028,74 @@ export class StripeFunctionsStack extends cdk.Stack {
       value: customersTable.tableName,
       exportName: `customersTableName-${environment}`,
     });
+
+    new cdk.CfnOutput(this, `WebhookEventsTableName`, {
+      value: webhookEventsTable.tableName,
+      exportName: `webhookEventsTableName-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `SubscriptionsTableName`, {
+      value: subscriptionsTable.tableName,
+      exportName: `subscriptionsTableName-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `EventBusName`, {
+      value: eventBus.eventBusName,
+      exportName: `eventBusName-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `PurchasesTableName`, {
+      value: purchasesTable.tableName,
+      exportName: `purchasesTableName-${environment}`,
+    });
+
+
+    new cdk.CfnOutput(this, `WebhookQueueUrl`, {
+      value: webhookQueue.queueUrl,
+      exportName: `webhookQueueUrl-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `WebhookQueueArn`, {
+      value: webhookQueue.queueArn,
+      exportName: `webhookQueueArn-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `WebhookDeadLetterQueueUrl`, {
+      value: webhookDeadLetterQueue.queueUrl,
+      exportName: `webhookDeadLetterQueueUrl-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `WebhookDeadLetterQueueArn`, {
+      value: webhookDeadLetterQueue.queueArn,
+      exportName: `webhookDeadLetterQueueArn-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `AlarmTopicArn`, {
+      value: alarmTopic.topicArn,
+      exportName: `alarmTopicArn-${environment}`,
+    });
+
+
+    new cdk.CfnOutput(this, `ReconciliationFunction`, {
+      value: this.reconciliationFunction,
+      exportName: `reconciliationFunction-${environment}`,
+    });
+
+    new cdk.CfnOutput(this, `DashboardName`, {
+      value: dashboard.dashboardName,
+      exportName: `dashboardName-${environment}`,
+    });
+
+    if (api) {
+      new cdk.CfnOutput(this, `ApiId`, {
+        value: api.restApiId,
+        exportName: `apiId-${environment}`,
+      });
+
+      new cdk.CfnOutput(this, `ApiUrl`, {
+        value: api.url,
+        exportName: `apiUrl-${environment}`,
+      });
+    }
   }
 }
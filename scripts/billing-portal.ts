@@ -0,0 +1,158 @@
+// scripts/billing-portal.ts
+// Creates or updates the billing portal configuration from scripts/billing-portal.json,
+// so every stage's portal is set up the same way. The file uses Stripe's
+// configuration fields, except that products are listed as the names of the
+// environment variables holding their prices (price_env_vars) and the return
+// URL as a path in the app (default_return_path).
+//
+//   npm run billing-portal -- --dry-run  # show what would be sent, change nothing
+//   npm run billing-portal               # apply if the file's version changed
+//   npm run billing-portal -- --force    # apply even if the version is unchanged
+//
+// The configuration is found again through its metadata. Its ID goes into
+// STRIPE_PORTAL_CONFIGURATION_ID in .env.<stage>, which the stack passes to the
+// manage function.
+import * as fs from "fs";
+import * as path from "path";
+import Stripe from "stripe";
+import * as dotenv from 'dotenv';
+
+// Determine the environment
+const environment = process.env.ENV_STAGE || "dev";
+
+// Load environment variables based on the environment
+if (environment === "prod") {
+  dotenv.config({ path: ".env.prod" });
+  console.log("Loading production environment variables");
+} else {
+  dotenv.config({ path: ".env.dev" });
+  console.log("Loading development environment variables");
+}
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+const CONFIG_FILE = path.join(__dirname, 'billing-portal.json');
+const MANAGED_BY = 'stripe-backend';
+
+type PortalFile = {
+  version: number;
+  business_profile?: Stripe.BillingPortal.ConfigurationCreateParams.BusinessProfile;
+  default_return_path: string;
+  features: Omit<Stripe.BillingPortal.ConfigurationCreateParams.Features, 'subscription_update'> & {
+    subscription_update?: Omit<
+      Stripe.BillingPortal.ConfigurationCreateParams.Features.SubscriptionUpdate,
+      'products'
+    > & { price_env_vars: string[] };
+  };
+};
+
+function parseArgs(argv: string[]): { dryRun: boolean; force: boolean } {
+  const options = { dryRun: false, force: false };
+  for (const arg of argv) {
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--force':
+        options.force = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+function loadPortalFile(): PortalFile {
+  const file: PortalFile = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'));
+  if (!Number.isInteger(file.version) || !file.default_return_path?.startsWith('/')) {
+    throw new Error(`${CONFIG_FILE} needs an integer version and a default_return_path starting with /`);
+  }
+  return file;
+}
+
+// Groups the configured prices by product, as the portal expects them
+async function subscriptionProducts(
+  envVars: string[]
+): Promise<Stripe.BillingPortal.ConfigurationCreateParams.Features.SubscriptionUpdate.Product[]> {
+  const priceIds = envVars.map(name => process.env[name]).filter((id): id is string => !!id);
+  if (priceIds.length === 0) {
+    throw new Error(`None of ${envVars.join(', ')} is set in .env.${environment}`);
+  }
+
+  const products = new Map<string, string[]>();
+  for (const priceId of priceIds) {
+    const price = await stripe.prices.retrieve(priceId);
+    const productId = typeof price.product === 'string' ? price.product : price.product.id;
+    products.set(productId, [...(products.get(productId) ?? []), priceId]);
+  }
+  return [...products].map(([product, prices]) => ({ product, prices }));
+}
+
+async function buildParams(file: PortalFile): Promise<Stripe.BillingPortal.ConfigurationCreateParams> {
+  const { subscription_update: subscriptionUpdate, ...features } = file.features;
+  let update: Stripe.BillingPortal.ConfigurationCreateParams.Features.SubscriptionUpdate | undefined;
+  if (subscriptionUpdate) {
+    const { price_env_vars: envVars, ...rest } = subscriptionUpdate;
+    update = {
+      ...rest,
+      products: rest.enabled ? await subscriptionProducts(envVars) : undefined,
+    };
+  }
+
+  return {
+    business_profile: file.business_profile,
+    default_return_url: process.env.APP_URL + file.default_return_path,
+    features: { ...features, ...(update && { subscription_update: update }) },
+    metadata: { managed_by: MANAGED_BY, version: file.version.toString() },
+  };
+}
+
+async function findManagedConfiguration(): Promise<Stripe.BillingPortal.Configuration | undefined> {
+  const configurations = await stripe.billingPortal.configurations
+    .list({ active: true, limit: 100 })
+    .autoPagingToArray({ limit: 1000 });
+  return configurations.find(configuration => configuration.metadata?.managed_by === MANAGED_BY);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!process.env.STRIPE_SECRET_KEY || !process.env.APP_URL) {
+    throw new Error(`STRIPE_SECRET_KEY and APP_URL must be set in .env.${environment}`);
+  }
+
+  const file = loadPortalFile();
+  const params = await buildParams(file);
+  const existing = await findManagedConfiguration();
+  const existingVersion = existing?.metadata?.version;
+
+  if (existing) {
+    console.log(`Found configuration ${existing.id} at version ${existingVersion ?? '(none)'}; file is at version ${file.version}`);
+  } else {
+    console.log(`No configuration managed by ${MANAGED_BY} yet; one will be created`);
+  }
+
+  if (existing && existingVersion === file.version.toString() && !options.force) {
+    console.log('Configuration is up to date; bump the version in billing-portal.json (or pass --force) to apply changes');
+    return;
+  }
+  if (options.dryRun) {
+    console.log(JSON.stringify(params, null, 2));
+    console.log('Dry run: nothing was changed');
+    return;
+  }
+
+  const configuration = existing
+    ? await stripe.billingPortal.configurations.update(existing.id, params)
+    : await stripe.billingPortal.configurations.create(params);
+  console.log(`${existing ? 'Updated' : 'Created'} ${configuration.id} (version ${file.version})`);
+
+  if (process.env.STRIPE_PORTAL_CONFIGURATION_ID !== configuration.id) {
+    console.log(`Set STRIPE_PORTAL_CONFIGURATION_ID=${configuration.id} in .env.${environment} and deploy`);
+  }
+}
+
+main().catch((error) => {
+  console.error('Error updating billing portal configuration:', error);
+  process.exitCode = 1;
+});
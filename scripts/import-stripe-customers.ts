@@ -0,0 +1,392 @@
+// scripts/import-stripe-customers.ts
+// Imports existing Stripe customers into the customer table and Cognito, for
+// products moving onto this stack. Each customer is matched to a Cognito user by
+// metadata.userId (the user's sub) or, failing that, by email. Matched customers
+// get the row checkout would have created and are then synced, which writes the
+// subscription fields and Cognito attributes.
+//
+//   npm run import-customers -- --dry-run
+//   npm run import-customers [-- --rate 5] [-- --restart]
+//
+// Progress is checkpointed after every customer, so an interrupted run picks up
+// where it stopped. Ambiguous or conflicting matches are appended to a report
+// and left for a person to resolve.
+import * as fs from "fs";
+import {
+  CloudFormationClient,
+  DescribeStacksCommand
+} from "@aws-sdk/client-cloudformation";
+import {
+  CognitoIdentityProviderClient,
+  ListUsersCommand,
+  UserType
+} from "@aws-sdk/client-cognito-identity-provider";
+import { ConditionalCheckFailedException, DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand
+} from "@aws-sdk/lib-dynamodb";
+import { InvokeCommand, LambdaClient } from "@aws-sdk/client-lambda";
+import Stripe from "stripe";
+import * as dotenv from 'dotenv';
+
+// Determine the environment
+const environment = process.env.ENV_STAGE || "dev";
+
+// Load environment variables based on the environment
+if (environment === "prod") {
+  dotenv.config({ path: ".env.prod" });
+  console.log("Loading production environment variables");
+} else {
+  dotenv.config({ path: ".env.dev" });
+  console.log("Loading development environment variables");
+}
+
+// Adaptive retries back off on AWS throttling (Cognito's ListUsers limit is low)
+const config = {
+  region: process.env.AWS_REGION || 'us-east-1',
+  retryMode: 'adaptive',
+  maxAttempts: 8
+};
+
+const cloudformation = new CloudFormationClient(config);
+const cognito = new CognitoIdentityProviderClient(config);
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient(config));
+const lambdaClient = new LambdaClient(config);
+// Stripe retries rate-limited (429) requests itself
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { maxNetworkRetries: 5 });
+
+const CHECKPOINT_FILE = `import-checkpoint-${environment}.json`;
+const CONFLICT_REPORT_FILE = `import-conflicts-${environment}.jsonl`;
+
+type ImportOptions = {
+  dryRun: boolean;
+  restart: boolean;
+  // Customers processed per second
+  rate: number;
+};
+
+type ImportStats = {
+  imported: number;
+  alreadyImported: number;
+  conflicts: number;
+  unmatched: number;
+  syncFailures: number;
+};
+
+type Checkpoint = {
+  // Stripe customer ID to continue after
+  lastCustomerId: string | null;
+  stats: ImportStats;
+  updatedAt: string;
+};
+
+type Conflict = {
+  stripeCustomerId: string;
+  email: string | null;
+  metadataUserId: string | null;
+  reason: string;
+  candidates?: string[];
+};
+
+type Match =
+  | { matched: true; userId: string; email: string | null; matchedBy: 'metadata' | 'email' }
+  | { matched: false; conflict: boolean; reason: string; candidates?: string[] };
+
+function parseArgs(argv: string[]): ImportOptions {
+  const options: ImportOptions = { dryRun: false, restart: false, rate: 5 };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--restart':
+        options.restart = true;
+        break;
+      case '--rate':
+        options.rate = Number(argv[i + 1]);
+        if (!(options.rate > 0)) {
+          throw new Error('--rate must be a positive number of customers per second');
+        }
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+async function getStackOutput(exportName: string): Promise<string> {
+  const { Stacks } = await cloudformation.send(
+    new DescribeStacksCommand({
+      StackName: process.env.STACK_NAME || `StripeBackendStack-${environment}`
+    })
+  );
+
+  const value = Stacks?.[0]?.Outputs?.find(o => o.ExportName === exportName)?.OutputValue;
+  if (!value) throw new Error(`Stack output ${exportName} not found`);
+  return value;
+}
+
+function loadCheckpoint(restart: boolean): Checkpoint {
+  if (!restart && fs.existsSync(CHECKPOINT_FILE)) {
+    const checkpoint: Checkpoint = JSON.parse(fs.readFileSync(CHECKPOINT_FILE, 'utf8'));
+    console.log('Resuming after customer:', checkpoint.lastCustomerId);
+    return checkpoint;
+  }
+  return {
+    lastCustomerId: null,
+    stats: { imported: 0, alreadyImported: 0, conflicts: 0, unmatched: 0, syncFailures: 0 },
+    updatedAt: new Date().toISOString()
+  };
+}
+
+function saveCheckpoint(checkpoint: Checkpoint) {
+  checkpoint.updatedAt = new Date().toISOString();
+  // Write then rename, so an interrupted write never leaves a corrupt checkpoint
+  fs.writeFileSync(`${CHECKPOINT_FILE}.tmp`, JSON.stringify(checkpoint, null, 2));
+  fs.renameSync(`${CHECKPOINT_FILE}.tmp`, CHECKPOINT_FILE);
+}
+
+function reportConflict(conflict: Conflict) {
+  console.warn('Conflict:', conflict);
+  fs.appendFileSync(CONFLICT_REPORT_FILE, JSON.stringify(conflict) + '\n');
+}
+
+const attribute = (user: UserType, name: string) =>
+  user.Attributes?.find(a => a.Name === name)?.Value ?? null;
+
+async function findUsers(userPoolId: string, filter: string): Promise<UserType[]> {
+  const { Users } = await cognito.send(new ListUsersCommand({
+    UserPoolId: userPoolId,
+    Filter: filter,
+    Limit: 2
+  }));
+  return Users ?? [];
+}
+
+// Cognito filter values are quoted strings
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+async function matchUser(userPoolId: string, customer: Stripe.Customer): Promise<Match> {
+  const metadataUserId = customer.metadata?.userId || null;
+
+  if (metadataUserId) {
+    const [user] = await findUsers(userPoolId, `sub = ${quote(metadataUserId)}`);
+    if (user) {
+      return {
+        matched: true,
+        userId: metadataUserId,
+        email: attribute(user, 'email'),
+        matchedBy: 'metadata'
+      };
+    }
+  }
+
+  if (!customer.email) {
+    return { matched: false, conflict: false, reason: 'No metadata.userId match and no email' };
+  }
+
+  const users = await findUsers(userPoolId, `email = ${quote(customer.email)}`);
+  if (users.length === 0) {
+    return { matched: false, conflict: false, reason: 'No Cognito user with this email' };
+  }
+  if (users.length > 1) {
+    return {
+      matched: false,
+      conflict: true,
+      reason: 'Several Cognito users share this email',
+      candidates: users.map(user => attribute(user, 'sub')!)
+    };
+  }
+  const sub = attribute(users[0], 'sub')!;
+  if (metadataUserId) {
+    // metadata.userId names a user that does not exist; the email match may be a different person
+    return {
+      matched: false,
+      conflict: true,
+      reason: 'metadata.userId has no Cognito user, but the email matches another user',
+      candidates: [sub]
+    };
+  }
+  return { matched: true, userId: sub, email: customer.email, matchedBy: 'email' };
+}
+
+type WriteOutcome = 'created' | 'exists' | { conflict: string; candidates?: string[] };
+
+// Writes the row checkout creates, without ever replacing an existing one
+async function writeCustomerRow(
+  tableName: string,
+  userId: string,
+  customer: Stripe.Customer,
+  email: string | null,
+  dryRun: boolean
+): Promise<WriteOutcome> {
+  const { Items } = await docClient.send(new QueryCommand({
+    TableName: tableName,
+    IndexName: 'stripeCustomerId-index',
+    KeyConditionExpression: 'stripeCustomerId = :stripeId',
+    ExpressionAttributeValues: { ':stripeId': customer.id }
+  }));
+  const mappedUserIds = (Items ?? []).map(item => item.userId as string);
+  if (mappedUserIds.some(id => id !== userId)) {
+    return { conflict: 'Stripe customer already belongs to another user', candidates: mappedUserIds };
+  }
+
+  const { Item } = await docClient.send(new GetCommand({
+    TableName: tableName,
+    Key: { userId },
+    ProjectionExpression: 'userId, stripeCustomerId'
+  }));
+  if (Item?.stripeCustomerId === customer.id) {
+    return 'exists';
+  }
+  if (Item) {
+    return {
+      conflict: 'User already has a different Stripe customer',
+      candidates: Item.stripeCustomerId ? [Item.stripeCustomerId] : undefined
+    };
+  }
+  if (dryRun) {
+    return 'created';
+  }
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: tableName,
+      Item: {
+        userId,
+        stripeCustomerId: customer.id,
+        email: email ?? customer.email,
+        createdAt: new Date(customer.created * 1000).toISOString(),
+        importedAt: new Date().toISOString()
+      },
+      ConditionExpression: 'attribute_not_exists(userId)'
+    }));
+    return 'created';
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      // Created by checkout while we were looking
+      return { conflict: 'User record was created during the import' };
+    }
+    throw error;
+  }
+}
+
+async function syncCustomer(syncArn: string, userId: string): Promise<string | null> {
+  const { Payload, FunctionError } = await lambdaClient.send(new InvokeCommand({
+    FunctionName: syncArn,
+    InvocationType: 'RequestResponse',
+    Payload: Buffer.from(JSON.stringify({ userId }))
+  }));
+  const result = Payload ? JSON.parse(Buffer.from(Payload).toString()) : null;
+  if (FunctionError || result?.statusCode !== 200) {
+    return result?.error ?? FunctionError ?? 'Sync failed';
+  }
+  return null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function importCustomers() {
+  const options = parseArgs(process.argv.slice(2));
+  const userPoolId = process.env.COGNITO_USER_POOL_ID;
+  if (!userPoolId) throw new Error('COGNITO_USER_POOL_ID is not set');
+
+  const tableName = await getStackOutput(`customersTableName-${environment}`);
+  const syncArn = await getStackOutput(`syncFunction-${environment}`);
+
+  const checkpoint = loadCheckpoint(options.restart);
+  const { stats } = checkpoint;
+  const interval = 1000 / options.rate;
+  if (options.dryRun) {
+    console.log('Dry run: no rows are written, nothing is synced and the checkpoint is not saved');
+  }
+
+  const customers = stripe.customers.list({
+    limit: 100,
+    ...(checkpoint.lastCustomerId ? { starting_after: checkpoint.lastCustomerId } : {})
+  });
+
+  for await (const customer of customers) {
+    const started = Date.now();
+    const metadataUserId = customer.metadata?.userId || null;
+    const match = await matchUser(userPoolId, customer);
+
+    if (!match.matched) {
+      if (match.conflict) {
+        stats.conflicts++;
+        reportConflict({
+          stripeCustomerId: customer.id,
+          email: customer.email,
+          metadataUserId,
+          reason: match.reason,
+          candidates: match.candidates
+        });
+      } else {
+        stats.unmatched++;
+        console.log('No match:', { stripeCustomerId: customer.id, reason: match.reason });
+      }
+    } else {
+      const outcome = await writeCustomerRow(tableName, match.userId, customer, match.email, options.dryRun);
+      if (typeof outcome === 'object') {
+        stats.conflicts++;
+        reportConflict({
+          stripeCustomerId: customer.id,
+          email: customer.email,
+          metadataUserId,
+          reason: outcome.conflict,
+          candidates: outcome.candidates
+        });
+      } else {
+        if (outcome === 'created') {
+          stats.imported++;
+        } else {
+          stats.alreadyImported++;
+        }
+        console.log(options.dryRun ? 'Would import:' : 'Imported:', {
+          stripeCustomerId: customer.id,
+          userId: match.userId,
+          matchedBy: match.matchedBy,
+          outcome
+        });
+
+        // Also for rows that already exist, in case an earlier run stopped before syncing
+        if (!options.dryRun) {
+          const syncError = await syncCustomer(syncArn, match.userId);
+          if (syncError) {
+            stats.syncFailures++;
+            console.error('Sync failed:', { userId: match.userId, error: syncError });
+          }
+        }
+      }
+    }
+
+    checkpoint.lastCustomerId = customer.id;
+    if (!options.dryRun) {
+      saveCheckpoint(checkpoint);
+    }
+
+    const elapsed = Date.now() - started;
+    if (elapsed < interval) {
+      await sleep(interval - elapsed);
+    }
+  }
+
+  console.log('Import finished:', stats);
+  if (stats.conflicts > 0) {
+    console.log(`Conflicts were written to ${CONFLICT_REPORT_FILE}`);
+  }
+  if (!options.dryRun) {
+    console.log(`Delete ${CHECKPOINT_FILE} (or pass --restart) before importing from the beginning again`);
+  }
+}
+
+importCustomers().catch((error) => {
+  console.error('Error importing customers:', error);
+  process.exitCode = 1;
+});
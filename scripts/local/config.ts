@@ -0,0 +1,79 @@
+// scripts/local/config.ts
+// Settings shared by the local development scripts. Everything can be overridden
+// from the environment (or .env.local).
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: ".env.local" });
+
+export const localConfig = {
+  port: Number(process.env.LOCAL_PORT || 3001),
+  dynamoEndpoint: process.env.LOCAL_DYNAMODB_ENDPOINT || 'http://localhost:8000',
+  stripeApiBase: process.env.LOCAL_STRIPE_API_BASE || 'http://localhost:12111',
+  // stripe-mock accepts any key that looks like a test key
+  stripeSecretKey: process.env.STRIPE_SECRET_KEY || 'sk_test_local',
+  webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || 'whsec_local',
+  appUrl: process.env.APP_URL || 'http://localhost:3000',
+  priceId: process.env.STRIPE_PRICE_ID || 'price_local_standard',
+  // The user the fake Cognito authorizer signs every request in as
+  user: {
+    sub: process.env.LOCAL_USER_SUB || '00000000-0000-0000-0000-000000000001',
+    email: process.env.LOCAL_USER_EMAIL || 'dev@example.com'
+  },
+  tables: {
+    customers: 'local-StripeCustomers',
+    subscriptions: 'local-StripeSubscriptions',
+    purchases: 'local-StripePurchases',
+    invoices: 'local-StripeInvoices',
+    webhookEvents: 'local-StripeWebhookEvents'
+  }
+};
+
+/**
+ * Sets the environment the handlers read at import time, and points the AWS SDK
+ * at local stand-ins: DynamoDB Local, and the dev server itself for Cognito,
+ * EventBridge and SQS. Must run before any handler module is loaded.
+ */
+export function applyLocalEnvironment() {
+  const localAws = `http://localhost:${localConfig.port}`;
+
+  Object.assign(process.env, {
+    AWS_REGION: process.env.AWS_REGION || 'us-east-1',
+    // Requests are still signed; nothing checks the signature locally
+    AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID || 'local',
+    AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY || 'local',
+    AWS_ENDPOINT_URL_DYNAMODB: localConfig.dynamoEndpoint,
+    AWS_ENDPOINT_URL_COGNITO_IDENTITY_PROVIDER: localAws,
+    AWS_ENDPOINT_URL_EVENTBRIDGE: localAws,
+    AWS_ENDPOINT_URL_SQS: localAws,
+    AWS_ENDPOINT_URL_LAMBDA: localAws,
+    STRIPE_API_BASE: localConfig.stripeApiBase,
+    STRIPE_SECRET_KEY: localConfig.stripeSecretKey,
+    STRIPE_WEBHOOK_SECRET: localConfig.webhookSecret,
+    APP_URL: localConfig.appUrl,
+    CUSTOMER_TABLE: localConfig.tables.customers,
+    SUBSCRIPTIONS_TABLE: localConfig.tables.subscriptions,
+    PURCHASES_TABLE: localConfig.tables.purchases,
+    INVOICES_TABLE: localConfig.tables.invoices,
+    EVENTS_TABLE: localConfig.tables.webhookEvents,
+    EVENT_BUS_NAME: 'stripe-backend-local',
+    WEBHOOK_QUEUE_URL: `${localAws}/queue/stripe-webhook-local`,
+    STRIPE_SYNC_FUNCTION_NAME: 'stripe-sync-local',
+    COGNITO_USER_POOL_ID: 'us-east-1_local',
+    PRICE_CATALOG: process.env.PRICE_CATALOG || JSON.stringify({
+      defaultPlan: 'standard',
+      plans: {
+        standard: {
+          prices: { month: localConfig.priceId },
+          defaultInterval: 'month',
+          maxQuantity: 1,
+          trialDays: 14,
+          trialRequiresPaymentMethod: false,
+          allowPromotionCodes: true
+        }
+      }
+    }),
+    ENTITLEMENTS_CONFIG: process.env.ENTITLEMENTS_CONFIG || JSON.stringify({
+      rules: [{ priceId: localConfig.priceId, features: ['premium'], limits: { projects: 10 } }]
+    })
+  });
+}
@@ -0,0 +1,135 @@
+// scripts/local/create-tables.ts
+// Creates the stack's tables (with the same keys and indexes as lib/stripe-stack.ts)
+// in DynamoDB Local. Tables that already exist are left alone.
+//
+//   docker compose up -d
+//   npm run local:tables
+import {
+  CreateTableCommand,
+  CreateTableCommandInput,
+  DynamoDBClient,
+  ResourceInUseException
+} from "@aws-sdk/client-dynamodb";
+import { localConfig } from "./config";
+
+const dynamodb = new DynamoDBClient({
+  region: 'us-east-1',
+  endpoint: localConfig.dynamoEndpoint,
+  credentials: { accessKeyId: 'local', secretAccessKey: 'local' }
+});
+
+const { tables } = localConfig;
+
+const tableDefinitions: CreateTableCommandInput[] = [
+  {
+    TableName: tables.customers,
+    KeySchema: [{ AttributeName: 'userId', KeyType: 'HASH' }],
+    AttributeDefinitions: [
+      { AttributeName: 'userId', AttributeType: 'S' },
+      { AttributeName: 'stripeCustomerId', AttributeType: 'S' },
+      { AttributeName: 'dunningStatus', AttributeType: 'S' },
+      { AttributeName: 'dunningGraceEndsAt', AttributeType: 'N' }
+    ],
+    GlobalSecondaryIndexes: [
+      {
+        IndexName: 'stripeCustomerId-index',
+        KeySchema: [{ AttributeName: 'stripeCustomerId', KeyType: 'HASH' }],
+        Projection: { ProjectionType: 'ALL' }
+      },
+      {
+        IndexName: 'dunning-index',
+        KeySchema: [
+          { AttributeName: 'dunningStatus', KeyType: 'HASH' },
+          { AttributeName: 'dunningGraceEndsAt', KeyType: 'RANGE' }
+        ],
+        Projection: { ProjectionType: 'ALL' }
+      }
+    ]
+  },
+  {
+    TableName: tables.subscriptions,
+    KeySchema: [
+      { AttributeName: 'userId', KeyType: 'HASH' },
+      { AttributeName: 'subscriptionId', KeyType: 'RANGE' }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: 'userId', AttributeType: 'S' },
+      { AttributeName: 'subscriptionId', AttributeType: 'S' }
+    ]
+  },
+  {
+    TableName: tables.purchases,
+    KeySchema: [
+      { AttributeName: 'userId', KeyType: 'HASH' },
+      { AttributeName: 'purchaseId', KeyType: 'RANGE' }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: 'userId', AttributeType: 'S' },
+      { AttributeName: 'purchaseId', AttributeType: 'S' }
+    ]
+  },
+  {
+    TableName: tables.invoices,
+    KeySchema: [
+      { AttributeName: 'userId', KeyType: 'HASH' },
+      { AttributeName: 'invoiceId', KeyType: 'RANGE' }
+    ],
+    AttributeDefinitions: [
+      { AttributeName: 'userId', AttributeType: 'S' },
+      { AttributeName: 'invoiceId', AttributeType: 'S' },
+      { AttributeName: 'created', AttributeType: 'N' }
+    ],
+    LocalSecondaryIndexes: [
+      {
+        IndexName: 'created-index',
+        KeySchema: [
+          { AttributeName: 'userId', KeyType: 'HASH' },
+          { AttributeName: 'created', KeyType: 'RANGE' }
+        ],
+        Projection: { ProjectionType: 'ALL' }
+      }
+    ]
+  },
+  {
+    TableName: tables.webhookEvents,
+    KeySchema: [{ AttributeName: 'eventId', KeyType: 'HASH' }],
+    AttributeDefinitions: [
+      { AttributeName: 'eventId', AttributeType: 'S' },
+      { AttributeName: 'receivedDate', AttributeType: 'S' },
+      { AttributeName: 'receivedAt', AttributeType: 'S' }
+    ],
+    GlobalSecondaryIndexes: [
+      {
+        IndexName: 'receivedDate-index',
+        KeySchema: [
+          { AttributeName: 'receivedDate', KeyType: 'HASH' },
+          { AttributeName: 'receivedAt', KeyType: 'RANGE' }
+        ],
+        Projection: { ProjectionType: 'ALL' }
+      }
+    ]
+  }
+];
+
+async function createTables() {
+  for (const definition of tableDefinitions) {
+    try {
+      await dynamodb.send(new CreateTableCommand({
+        ...definition,
+        BillingMode: 'PAY_PER_REQUEST'
+      }));
+      console.log('Created table:', definition.TableName);
+    } catch (error) {
+      if (error instanceof ResourceInUseException) {
+        console.log('Table already exists:', definition.TableName);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+createTables().catch((error) => {
+  console.error('Error creating local tables:', error);
+  process.exitCode = 1;
+});
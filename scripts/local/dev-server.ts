@@ -0,0 +1,357 @@
+// scripts/local/dev-server.ts
+// Serves the handlers on the same /subscription/* routes as API Gateway, so the
+// whole flow can be exercised offline:
+//
+//   - Authenticated routes get requestContext.authorizer.claims for the configured
+//     test user (LOCAL_USER_SUB / LOCAL_USER_EMAIL), or for the user named in the
+//     X-Local-User-Sub / X-Local-User-Email request headers.
+//   - DynamoDB goes to DynamoDB Local and Stripe to stripe-mock (docker-compose.yml).
+//   - Cognito, EventBridge, SQS and Lambda calls are answered by this server:
+//     attribute updates and published events are logged, and queued webhook
+//     events and sync invocations are handed straight to the sync handler.
+//
+//   docker compose up -d && npm run local:tables && npm run local:server
+import { createHash, randomUUID } from "crypto";
+import * as http from "http";
+import type {
+  APIGatewayProxyEventBase,
+  APIGatewayProxyResult,
+  Context,
+  Handler,
+  SQSEvent
+} from "aws-lambda";
+import type { SyncStripeEvent } from "../../src/sync/sync-stripe-data";
+import { applyLocalEnvironment, localConfig } from "./config";
+
+// Handlers read their configuration when they are loaded
+applyLocalEnvironment();
+
+// Authenticated routes get the claims the Cognito authorizer would add
+type RouteEvent = APIGatewayProxyEventBase<{ claims: ReturnType<typeof claimsFor> }>;
+
+type Route = {
+  method: string;
+  path: string;
+  // Results are checked before use: the sync handler answers other events too
+  load: () => Promise<{ handler: Handler<RouteEvent, unknown> }>;
+  // The webhook is the only route API Gateway does not put behind the authorizer
+  authenticated: boolean;
+};
+
+const routes: Route[] = [
+  {
+    method: 'POST',
+    path: '/subscription/checkout',
+    load: () => import('../../src/checkout/create-checkout'),
+    authenticated: true
+  },
+  {
+    method: 'POST',
+    path: '/subscription/manage',
+    load: () => import('../../src/manage/manage-subscription'),
+    authenticated: true
+  },
+  {
+    method: 'POST',
+    path: '/subscription/change-plan',
+    load: () => import('../../src/subscription/change-plan'),
+    authenticated: true
+  },
+  {
+    method: 'POST',
+    path: '/subscription/change-plan/preview',
+    load: () => import('../../src/subscription/preview-plan-change'),
+    authenticated: true
+  },
+  {
+    method: 'POST',
+    path: '/subscription/cancel',
+    load: () => import('../../src/subscription/cancel-subscription'),
+    authenticated: true
+  },
+  {
+    method: 'POST',
+    path: '/subscription/reactivate',
+    load: () => import('../../src/subscription/reactivate-subscription'),
+    authenticated: true
+  },
+  {
+    method: 'POST',
+    path: '/subscription/pause',
+    load: () => import('../../src/subscription/pause-subscription'),
+    authenticated: true
+  },
+  {
+    method: 'POST',
+    path: '/subscription/sync',
+    load: () => import('../../src/sync/sync-stripe-data'),
+    authenticated: true
+  },
+  {
+    method: 'POST',
+    path: '/subscription/webhook',
+    load: () => import('../../src/webhook/stripe-webhook'),
+    authenticated: false
+  },
+  {
+    method: 'GET',
+    path: '/subscription/entitlements',
+    load: () => import('../../src/entitlements/get-entitlements'),
+    authenticated: true
+  },
+  {
+    method: 'GET',
+    path: '/subscription/invoices',
+    load: () => import('../../src/invoices/list-invoices'),
+    authenticated: true
+  }
+];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': localConfig.appUrl,
+  'Access-Control-Allow-Credentials': 'true',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Local-User-Sub, X-Local-User-Email',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+};
+
+function fakeContext(functionName: string): Context {
+  return {
+    callbackWaitsForEmptyEventLoop: true,
+    functionName,
+    functionVersion: '$LATEST',
+    invokedFunctionArn: `arn:aws:lambda:us-east-1:000000000000:function:${functionName}`,
+    memoryLimitInMB: '128',
+    awsRequestId: randomUUID(),
+    logGroupName: `/aws/lambda/${functionName}`,
+    logStreamName: 'local',
+    getRemainingTimeInMillis: () => 60_000,
+    done: () => undefined,
+    fail: () => undefined,
+    succeed: () => undefined
+  };
+}
+
+function invoke<E, R>(handler: Handler<E, R>, event: E, functionName: string): Promise<R | void> {
+  return Promise.resolve(handler(event, fakeContext(functionName), () => undefined));
+}
+
+function isProxyResult(result: unknown): result is APIGatewayProxyResult {
+  return typeof result === 'object' && result !== null && 'statusCode' in result && 'body' in result;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function claimsFor(req: http.IncomingMessage) {
+  const sub = (req.headers['x-local-user-sub'] as string) || localConfig.user.sub;
+  const email = (req.headers['x-local-user-email'] as string) || localConfig.user.email;
+  return { sub, email, email_verified: 'true', 'cognito:username': sub };
+}
+
+function toProxyEvent(
+  req: http.IncomingMessage,
+  url: URL,
+  body: string,
+  route: Route
+): RouteEvent {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(',') : value;
+    }
+  }
+  const query = Object.fromEntries(url.searchParams);
+  const hasQuery = Object.keys(query).length > 0;
+
+  return {
+    resource: route.path,
+    path: url.pathname,
+    httpMethod: route.method,
+    headers,
+    multiValueHeaders: {},
+    queryStringParameters: hasQuery ? query : null,
+    multiValueQueryStringParameters: hasQuery
+      ? Object.fromEntries([...url.searchParams.keys()].map(key => [key, url.searchParams.getAll(key)]))
+      : null,
+    pathParameters: null,
+    stageVariables: null,
+    body: body || null,
+    isBase64Encoded: false,
+    requestContext: {
+      accountId: '000000000000',
+      apiId: 'local',
+      authorizer: route.authenticated ? { claims: claimsFor(req) } : undefined,
+      httpMethod: route.method,
+      path: `/local${url.pathname}`,
+      protocol: 'HTTP/1.1',
+      requestId: randomUUID(),
+      requestTimeEpoch: Date.now(),
+      resourceId: 'local',
+      resourcePath: route.path,
+      stage: 'local',
+      identity: { sourceIp: req.socket.remoteAddress ?? '127.0.0.1' }
+    }
+  } as unknown as RouteEvent;
+}
+
+function send(res: http.ServerResponse, statusCode: number, headers: Record<string, unknown>, body: string) {
+  res.writeHead(statusCode, { ...corsHeaders, ...(headers as http.OutgoingHttpHeaders) });
+  res.end(body);
+}
+
+async function handleRoute(req: http.IncomingMessage, res: http.ServerResponse, url: URL, route: Route) {
+  const body = await readBody(req);
+  const { handler } = await route.load();
+  const functionName = route.path.replace('/subscription/', '');
+
+  const result = await invoke(handler, toProxyEvent(req, url, body, route), functionName);
+  if (!isProxyResult(result)) {
+    throw new Error(`${route.path} did not return an HTTP response`);
+  }
+  send(res, result.statusCode, result.headers ?? {}, result.body);
+}
+
+// Queued webhook events are delivered to the sync handler as a one-record batch.
+// There is no redelivery locally; failures are only logged.
+async function deliverToSync(messageBody: string, messageId: string) {
+  const { handler } = await import('../../src/sync/sync-stripe-data');
+  const event: SQSEvent = {
+    Records: [
+      {
+        messageId,
+        receiptHandle: messageId,
+        body: messageBody,
+        attributes: {
+          ApproximateReceiveCount: '1',
+          SentTimestamp: Date.now().toString(),
+          SenderId: 'local',
+          ApproximateFirstReceiveTimestamp: Date.now().toString()
+        },
+        messageAttributes: {},
+        md5OfBody: createHash('md5').update(messageBody).digest('hex'),
+        eventSource: 'aws:sqs',
+        eventSourceARN: 'arn:aws:sqs:us-east-1:000000000000:stripe-webhook-local',
+        awsRegion: 'us-east-1'
+      }
+    ]
+  };
+  const result = await invoke(handler, event, 'sync');
+  if (result && 'batchItemFailures' in result && result.batchItemFailures.length) {
+    console.warn('[sqs] Sync failed for queued event (not retried locally):', messageBody);
+  } else {
+    console.log('[sqs] Queued event processed:', messageBody);
+  }
+}
+
+// Lambda invocations (STRIPE_SYNC_FUNCTION_NAME) all go to the sync handler and
+// are answered synchronously, whatever the invocation type
+async function handleLambdaInvoke(req: http.IncomingMessage, res: http.ServerResponse) {
+  const payload = await readBody(req);
+  const { handler } = await import('../../src/sync/sync-stripe-data');
+  try {
+    const event: SyncStripeEvent = JSON.parse(payload || '{}');
+    const result = await invoke(handler, event, 'sync');
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result ?? null));
+  } catch (error) {
+    console.error('[lambda] Sync invocation failed:', error);
+    res.writeHead(200, { 'Content-Type': 'application/json', 'X-Amz-Function-Error': 'Unhandled' });
+    res.end(JSON.stringify({ errorMessage: error instanceof Error ? error.message : String(error) }));
+  }
+}
+
+// Minimal answers to the AWS JSON-protocol calls the handlers make
+async function handleAwsCall(req: http.IncomingMessage, res: http.ServerResponse) {
+  const target = req.headers['x-amz-target'] as string;
+  const input = JSON.parse((await readBody(req)) || '{}');
+  const respond = (output: unknown) => {
+    res.writeHead(200, { 'Content-Type': req.headers['content-type'] ?? 'application/x-amz-json-1.1' });
+    res.end(JSON.stringify(output));
+  };
+
+  switch (target) {
+    case 'AWSCognitoIdentityProviderService.AdminUpdateUserAttributes':
+      console.log('[cognito] Update attributes for', input.Username, input.UserAttributes);
+      respond({});
+      return;
+    case 'AWSEvents.PutEvents':
+      for (const entry of input.Entries ?? []) {
+        console.log('[events]', entry.DetailType, entry.Detail);
+      }
+      respond({
+        FailedEntryCount: 0,
+        Entries: (input.Entries ?? []).map(() => ({ EventId: randomUUID() }))
+      });
+      return;
+    case 'AmazonSQS.SendMessage': {
+      const messageId = randomUUID();
+      respond({
+        MessageId: messageId,
+        // The SDK verifies this checksum
+        MD5OfMessageBody: createHash('md5').update(input.MessageBody).digest('hex')
+      });
+      // After the response, like a real queue
+      setImmediate(() => {
+        deliverToSync(input.MessageBody, messageId).catch(error =>
+          console.error('[sqs] Error delivering queued event:', error)
+        );
+      });
+      return;
+    }
+    case 'AmazonSQS.ChangeMessageVisibility':
+      respond({});
+      return;
+    default:
+      console.warn('[aws] Unsupported call:', target);
+      res.writeHead(400, { 'Content-Type': 'application/x-amz-json-1.1' });
+      res.end(JSON.stringify({
+        __type: 'UnknownOperationException',
+        message: `${target} is not emulated by the local dev server`
+      }));
+  }
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    if (req.headers['x-amz-target']) {
+      await handleAwsCall(req, res);
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', `http://localhost:${localConfig.port}`);
+    if (url.pathname.startsWith('/2015-03-31/functions/')) {
+      await handleLambdaInvoke(req, res);
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      send(res, 204, {}, '');
+      return;
+    }
+
+    const route = routes.find(r => r.path === url.pathname && r.method === req.method);
+    if (!route) {
+      send(res, 404, { 'Content-Type': 'application/json' }, JSON.stringify({ message: 'Not Found' }));
+      return;
+    }
+
+    console.log(`${req.method} ${url.pathname}`);
+    await handleRoute(req, res, url, route);
+  } catch (error) {
+    console.error('Local server error:', error);
+    send(res, 502, { 'Content-Type': 'application/json' }, JSON.stringify({ message: 'Internal server error' }));
+  }
+});
+
+server.listen(localConfig.port, () => {
+  console.log(`Local API listening on http://localhost:${localConfig.port}`);
+  console.log('Signed in as:', localConfig.user);
+  for (const route of routes) {
+    console.log(`  ${route.method.padEnd(4)} ${route.path}${route.authenticated ? '' : ' (no authorizer)'}`);
+  }
+});
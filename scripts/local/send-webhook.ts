@@ -0,0 +1,68 @@
+// scripts/local/send-webhook.ts
+// Sends a signed webhook event to the local dev server.
+//
+//   npm run local:webhook -- customer.subscription.updated --customer cus_123
+//   npm run local:webhook -- invoice.payment_failed --object ./fixtures/invoice.json
+import * as fs from "fs";
+import type Stripe from "stripe";
+import { localConfig } from "./config";
+import { buildWebhookEvent, signWebhookEvent } from "./webhook-signature";
+
+type SendOptions = {
+  type: Stripe.Event.Type;
+  customer?: string;
+  objectFile?: string;
+};
+
+function parseArgs(argv: string[]): SendOptions {
+  const [type, ...rest] = argv;
+  if (!type || type.startsWith('--')) {
+    throw new Error('Pass the event type first, e.g. customer.subscription.updated');
+  }
+
+  const options: SendOptions = { type: type as Stripe.Event.Type };
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case '--customer':
+        options.customer = rest[i + 1];
+        i++;
+        break;
+      case '--object':
+        options.objectFile = rest[i + 1];
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${rest[i]}`);
+    }
+  }
+  if (!options.customer && !options.objectFile) {
+    throw new Error('Pass --customer <id> or an --object <file> with the event\'s data.object');
+  }
+  return options;
+}
+
+async function sendWebhook() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const object: Record<string, unknown> = options.objectFile
+    ? JSON.parse(fs.readFileSync(options.objectFile, 'utf8'))
+    : { id: `local_${options.type.replace(/\./g, '_')}`, object: options.type.split('.')[0] };
+  if (options.customer) {
+    object.customer = options.customer;
+  }
+
+  const event = buildWebhookEvent(options.type, object);
+  const { body, headers } = signWebhookEvent(event, localConfig.webhookSecret);
+
+  const response = await fetch(`http://localhost:${localConfig.port}/subscription/webhook`, {
+    method: 'POST',
+    headers,
+    body
+  });
+  console.log(`Sent ${event.type} (${event.id}):`, response.status, await response.text());
+}
+
+sendWebhook().catch((error) => {
+  console.error('Error sending webhook:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,82 @@
+// scripts/reconcile.ts
+// Runs the reconciliation job on demand and prints its drift report.
+// Without --repair nothing is changed.
+//
+//   npm run reconcile
+//   npm run reconcile -- --repair
+import {
+  CloudFormationClient,
+  DescribeStacksCommand
+} from "@aws-sdk/client-cloudformation";
+import { InvokeCommand, LambdaClient } from "@aws-sdk/client-lambda";
+import * as dotenv from 'dotenv';
+
+// Determine the environment
+const environment = process.env.ENV_STAGE || "dev";
+
+// Load environment variables based on the environment
+if (environment === "prod") {
+  dotenv.config({ path: ".env.prod" });
+  console.log("Loading production environment variables");
+} else {
+  dotenv.config({ path: ".env.dev" });
+  console.log("Loading development environment variables");
+}
+
+const config = {
+  region: process.env.AWS_REGION || 'us-east-1'
+};
+
+const cloudformation = new CloudFormationClient(config);
+const lambdaClient = new LambdaClient(config);
+
+async function getStackOutput(exportName: string): Promise<string> {
+  const { Stacks } = await cloudformation.send(
+    new DescribeStacksCommand({
+      StackName: process.env.STACK_NAME || `StripeBackendStack-${environment}`
+    })
+  );
+
+  const value = Stacks?.[0]?.Outputs?.find(o => o.ExportName === exportName)?.OutputValue;
+  if (!value) throw new Error(`Stack output ${exportName} not found`);
+  return value;
+}
+
+async function reconcile() {
+  const args = process.argv.slice(2);
+  const unknown = args.filter(arg => arg !== '--repair');
+  if (unknown.length > 0) {
+    throw new Error(`Unknown argument: ${unknown[0]}`);
+  }
+  const repair = args.includes('--repair');
+
+  const functionArn = await getStackOutput(`reconciliationFunction-${environment}`);
+  console.log(repair ? 'Reconciling and repairing drift...' : 'Reconciling (dry run)...');
+
+  const { Payload, FunctionError } = await lambdaClient.send(new InvokeCommand({
+    FunctionName: functionArn,
+    InvocationType: 'RequestResponse',
+    Payload: Buffer.from(JSON.stringify({ repair }))
+  }));
+
+  const report = Payload ? JSON.parse(Buffer.from(Payload).toString()) : null;
+  if (FunctionError) {
+    throw new Error(`Reconciliation failed: ${JSON.stringify(report)}`);
+  }
+
+  for (const entry of report.drift) {
+    console.log(JSON.stringify(entry));
+  }
+  const { drift, ...summary } = report;
+  console.log('Summary:', JSON.stringify(summary, null, 2));
+
+  // Fails while anything is left unrepaired, so it can gate a deploy or a cron
+  if (drift.some((entry: { repaired?: boolean }) => entry.repaired !== true)) {
+    process.exitCode = 1;
+  }
+}
+
+reconcile().catch((error) => {
+  console.error('Error running reconciliation:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,148 @@
+// scripts/redrive-webhook-events.ts
+// Moves webhook events from the dead-letter queue back onto the webhook queue,
+// once whatever made them fail has been fixed.
+//
+//   npm run redrive-events              # start moving every message back
+//   npm run redrive-events -- --status  # show the DLQ depth and recent move tasks
+//   npm run redrive-events -- --cancel  # stop a running move task
+import {
+  CloudFormationClient,
+  DescribeStacksCommand
+} from "@aws-sdk/client-cloudformation";
+import {
+  CancelMessageMoveTaskCommand,
+  GetQueueAttributesCommand,
+  ListMessageMoveTasksCommand,
+  SQSClient,
+  StartMessageMoveTaskCommand
+} from "@aws-sdk/client-sqs";
+import * as dotenv from 'dotenv';
+
+// Determine the environment
+const environment = process.env.ENV_STAGE || "dev";
+
+// Load environment variables based on the environment
+if (environment === "prod") {
+  dotenv.config({ path: ".env.prod" });
+  console.log("Loading production environment variables");
+} else {
+  dotenv.config({ path: ".env.dev" });
+  console.log("Loading development environment variables");
+}
+
+const config = {
+  region: process.env.AWS_REGION || 'us-east-1'
+};
+
+const cloudformation = new CloudFormationClient(config);
+const sqs = new SQSClient(config);
+
+type Command = 'start' | 'status' | 'cancel';
+
+function parseArgs(argv: string[]): { command: Command; maxPerSecond?: number } {
+  let command: Command = 'start';
+  let maxPerSecond: number | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--status':
+        command = 'status';
+        break;
+      case '--cancel':
+        command = 'cancel';
+        break;
+      case '--rate':
+        maxPerSecond = Number(argv[i + 1]);
+        if (!Number.isInteger(maxPerSecond) || maxPerSecond < 1) {
+          throw new Error('--rate must be a positive whole number of messages per second');
+        }
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  return { command, maxPerSecond };
+}
+
+async function getStackOutput(exportName: string): Promise<string> {
+  const { Stacks } = await cloudformation.send(
+    new DescribeStacksCommand({
+      StackName: process.env.STACK_NAME || `StripeBackendStack-${environment}`
+    })
+  );
+
+  const value = Stacks?.[0]?.Outputs?.find(o => o.ExportName === exportName)?.OutputValue;
+  if (!value) throw new Error(`Stack output ${exportName} not found`);
+  return value;
+}
+
+async function showStatus(deadLetterQueueUrl: string, deadLetterQueueArn: string) {
+  const { Attributes } = await sqs.send(new GetQueueAttributesCommand({
+    QueueUrl: deadLetterQueueUrl,
+    AttributeNames: ['ApproximateNumberOfMessages', 'ApproximateNumberOfMessagesNotVisible']
+  }));
+  console.log('Dead-letter queue:', {
+    waiting: Number(Attributes?.ApproximateNumberOfMessages ?? 0),
+    inFlight: Number(Attributes?.ApproximateNumberOfMessagesNotVisible ?? 0)
+  });
+
+  const { Results } = await sqs.send(new ListMessageMoveTasksCommand({
+    SourceArn: deadLetterQueueArn,
+    MaxResults: 5
+  }));
+  for (const task of Results ?? []) {
+    console.log('Move task:', {
+      status: task.Status,
+      moved: task.ApproximateNumberOfMessagesMoved,
+      toMove: task.ApproximateNumberOfMessagesToMove,
+      startedAt: task.StartedTimestamp ? new Date(task.StartedTimestamp).toISOString() : null,
+      failureReason: task.FailureReason
+    });
+  }
+}
+
+async function redriveEvents() {
+  const { command, maxPerSecond } = parseArgs(process.argv.slice(2));
+
+  const deadLetterQueueUrl = await getStackOutput(`webhookDeadLetterQueueUrl-${environment}`);
+  const deadLetterQueueArn = await getStackOutput(`webhookDeadLetterQueueArn-${environment}`);
+
+  if (command === 'status') {
+    await showStatus(deadLetterQueueUrl, deadLetterQueueArn);
+    return;
+  }
+
+  if (command === 'cancel') {
+    const { Results } = await sqs.send(new ListMessageMoveTasksCommand({
+      SourceArn: deadLetterQueueArn,
+      MaxResults: 1
+    }));
+    const running = Results?.find(task => task.Status === 'RUNNING');
+    if (!running?.TaskHandle) {
+      console.log('No running move task');
+      return;
+    }
+    const { ApproximateNumberOfMessagesMoved } = await sqs.send(new CancelMessageMoveTaskCommand({
+      TaskHandle: running.TaskHandle
+    }));
+    console.log(`Canceled move task after ${ApproximateNumberOfMessagesMoved ?? 0} message(s)`);
+    return;
+  }
+
+  const queueArn = await getStackOutput(`webhookQueueArn-${environment}`);
+  const { TaskHandle } = await sqs.send(new StartMessageMoveTaskCommand({
+    SourceArn: deadLetterQueueArn,
+    DestinationArn: queueArn,
+    MaxNumberOfMessagesPerSecond: maxPerSecond
+  }));
+
+  // The move runs inside SQS; redriven events go through the normal retries again
+  console.log('Started moving dead-lettered events back to the webhook queue:', TaskHandle);
+  console.log('Follow progress with: npm run redrive-events -- --status');
+}
+
+redriveEvents().catch((error) => {
+  console.error('Error redriving events:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,197 @@
+// scripts/replay-webhook-events.ts
+// Replays recorded webhook events through the sync function.
+//
+//   npm run replay-events -- --event evt_123 --event evt_456
+//   npm run replay-events -- --from 2025-02-01T00:00:00Z --to 2025-02-02T00:00:00Z [--status failed]
+import {
+  CloudFormationClient,
+  DescribeStacksCommand
+} from "@aws-sdk/client-cloudformation";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand
+} from "@aws-sdk/lib-dynamodb";
+import { InvokeCommand, LambdaClient } from "@aws-sdk/client-lambda";
+import * as dotenv from 'dotenv';
+import type { WebhookEventRecord } from "../src/shared/event-ledger";
+
+// Determine the environment
+const environment = process.env.ENV_STAGE || "dev";
+
+// Load environment variables based on the environment
+if (environment === "prod") {
+  dotenv.config({ path: ".env.prod" });
+  console.log("Loading production environment variables");
+} else {
+  dotenv.config({ path: ".env.dev" });
+  console.log("Loading development environment variables");
+}
+
+const config = {
+  region: process.env.AWS_REGION || 'us-east-1'
+};
+
+const cloudformation = new CloudFormationClient(config);
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient(config));
+const lambdaClient = new LambdaClient(config);
+
+type ReplayOptions = {
+  eventIds: string[];
+  from?: Date;
+  to?: Date;
+  status?: string;
+};
+
+function parseArgs(argv: string[]): ReplayOptions {
+  const options: ReplayOptions = { eventIds: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--event':
+        options.eventIds.push(value);
+        i++;
+        break;
+      case '--from':
+        options.from = new Date(value);
+        i++;
+        break;
+      case '--to':
+        options.to = new Date(value);
+        i++;
+        break;
+      case '--status':
+        options.status = value;
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (options.eventIds.length === 0 && !options.from) {
+    throw new Error('Pass one or more --event <id>, or a --from <iso date> window');
+  }
+  if (options.from && isNaN(options.from.getTime())) {
+    throw new Error('--from is not a valid date');
+  }
+  if (options.to && isNaN(options.to.getTime())) {
+    throw new Error('--to is not a valid date');
+  }
+  return options;
+}
+
+async function getStackOutput(exportName: string): Promise<string> {
+  const { Stacks } = await cloudformation.send(
+    new DescribeStacksCommand({
+      StackName: process.env.STACK_NAME || `StripeBackendStack-${environment}`
+    })
+  );
+
+  const value = Stacks?.[0]?.Outputs?.find(o => o.ExportName === exportName)?.OutputValue;
+  if (!value) throw new Error(`Stack output ${exportName} not found`);
+  return value;
+}
+
+async function loadEventsById(tableName: string, eventIds: string[]): Promise<WebhookEventRecord[]> {
+  const records: WebhookEventRecord[] = [];
+  for (const eventId of eventIds) {
+    const { Item } = await docClient.send(new GetCommand({
+      TableName: tableName,
+      Key: { eventId }
+    }));
+    if (!Item) {
+      console.warn('Event not found in ledger:', eventId);
+      continue;
+    }
+    records.push(Item as WebhookEventRecord);
+  }
+  return records;
+}
+
+// Walks receivedDate-index one day partition at a time
+async function loadEventsInWindow(tableName: string, from: Date, to: Date): Promise<WebhookEventRecord[]> {
+  const records: WebhookEventRecord[] = [];
+  const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+
+  while (day <= to) {
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const { Items, LastEvaluatedKey } = await docClient.send(new QueryCommand({
+        TableName: tableName,
+        IndexName: 'receivedDate-index',
+        KeyConditionExpression: 'receivedDate = :day AND receivedAt BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':day': day.toISOString().slice(0, 10),
+          ':from': from.toISOString(),
+          ':to': to.toISOString()
+        },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      records.push(...((Items ?? []) as WebhookEventRecord[]));
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return records;
+}
+
+async function replayEvents() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const tableName = await getStackOutput(`webhookEventsTableName-${environment}`);
+  const syncArn = await getStackOutput(`syncFunction-${environment}`);
+
+  let records = options.eventIds.length > 0
+    ? await loadEventsById(tableName, options.eventIds)
+    : await loadEventsInWindow(tableName, options.from!, options.to ?? new Date());
+
+  if (options.status) {
+    records = records.filter(r => r.status === options.status);
+  }
+  // Ignored events never reached sync, so there is nothing to replay
+  records = records.filter(r => r.status !== 'ignored');
+
+  console.log(`Replaying ${records.length} event(s)`);
+
+  let replayed = 0;
+  let failures = 0;
+  for (const record of records) {
+    if (!record.stripeCustomerId) {
+      console.warn('Skipping event without a customer:', record.eventId);
+      continue;
+    }
+
+    // Synchronous invoke so the outcome can be reported; sync updates the ledger itself
+    const { Payload, FunctionError } = await lambdaClient.send(new InvokeCommand({
+      FunctionName: syncArn,
+      InvocationType: 'RequestResponse',
+      Payload: Buffer.from(JSON.stringify({
+        stripeCustomerId: record.stripeCustomerId,
+        eventId: record.eventId
+      }))
+    }));
+
+    const result = Payload ? JSON.parse(Buffer.from(Payload).toString()) : null;
+    if (FunctionError || result?.statusCode !== 200) {
+      failures++;
+      console.error('Replay failed:', { eventId: record.eventId, type: record.type, FunctionError, result });
+    } else {
+      replayed++;
+      console.log('Replayed:', { eventId: record.eventId, type: record.type });
+    }
+  }
+
+  console.log(`Replay finished: ${replayed} succeeded, ${failures} failed`);
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+replayEvents().catch((error) => {
+  console.error('Error replaying events:', error);
+  process.exitCode = 1;
+});
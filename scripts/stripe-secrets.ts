@@ -0,0 +1,185 @@
+// scripts/stripe-secrets.ts
+// Stores the Stripe credentials in Secrets Manager, where the functions read them
+// (src/shared/secrets.ts). Run once per stage before the first deploy, and again
+// whenever a key or an endpoint signing secret changes.
+//
+//   npm run stripe-secrets                                  # store STRIPE_SECRET_KEY (and STRIPE_WEBHOOK_SECRET if none is stored yet)
+//   npm run stripe-secrets -- --list                        # show the stored secrets, masked
+//   npm run stripe-secrets -- --add-webhook-secret whsec_…     # accept a new signing secret
+//   npm run stripe-secrets -- --remove-webhook-secret whsec_…  # stop accepting an old one
+import {
+  CreateSecretCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  ResourceNotFoundException,
+  SecretsManagerClient
+} from "@aws-sdk/client-secrets-manager";
+import * as dotenv from 'dotenv';
+import { stripeSecretNames } from "../src/shared/secret-names";
+
+// Determine the environment
+const environment = process.env.ENV_STAGE || "dev";
+
+// Load environment variables based on the environment
+if (environment === "prod") {
+  dotenv.config({ path: ".env.prod" });
+  console.log("Loading production environment variables");
+} else {
+  dotenv.config({ path: ".env.dev" });
+  console.log("Loading development environment variables");
+}
+
+const config = {
+  region: process.env.AWS_REGION || 'us-east-1'
+};
+
+const secretsManager = new SecretsManagerClient(config);
+const secretNames = stripeSecretNames(environment);
+
+type Options =
+  | { command: 'store' }
+  | { command: 'list' }
+  | { command: 'add-webhook-secret' | 'remove-webhook-secret'; secret: string };
+
+function parseArgs(argv: string[]): Options {
+  let options: Options = { command: 'store' };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--list':
+        options = { command: 'list' };
+        break;
+      case '--add-webhook-secret':
+      case '--remove-webhook-secret': {
+        const secret = argv[i + 1];
+        if (!secret?.startsWith('whsec_')) {
+          throw new Error(`${argv[i]} needs an endpoint signing secret (whsec_...)`);
+        }
+        options = { command: argv[i].slice(2) as 'add-webhook-secret', secret };
+        i++;
+        break;
+      }
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+function mask(value: string): string {
+  return value.length > 12 ? `${value.slice(0, 8)}…${value.slice(-4)}` : '****';
+}
+
+async function readSecret(name: string): Promise<string | undefined> {
+  try {
+    const { SecretString } = await secretsManager.send(
+      new GetSecretValueCommand({ SecretId: name })
+    );
+    return SecretString;
+  } catch (error) {
+    if (error instanceof ResourceNotFoundException) return undefined;
+    throw error;
+  }
+}
+
+async function writeSecret(name: string, value: string, description: string) {
+  const exists = (await readSecret(name)) !== undefined;
+  if (exists) {
+    await secretsManager.send(new PutSecretValueCommand({ SecretId: name, SecretString: value }));
+  } else {
+    await secretsManager.send(
+      new CreateSecretCommand({ Name: name, Description: description, SecretString: value })
+    );
+  }
+}
+
+async function readWebhookSecrets(): Promise<string[]> {
+  const stored = await readSecret(secretNames.webhookSecrets);
+  return stored ? JSON.parse(stored) : [];
+}
+
+async function writeWebhookSecrets(secrets: string[]) {
+  await writeSecret(
+    secretNames.webhookSecrets,
+    JSON.stringify(secrets),
+    `Stripe webhook signing secrets (${environment})`
+  );
+}
+
+async function store() {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error(`STRIPE_SECRET_KEY is not set in .env.${environment}`);
+  }
+  await writeSecret(secretNames.secretKey, secretKey, `Stripe API key (${environment})`);
+  console.log(`Stored ${secretNames.secretKey}: ${mask(secretKey)}`);
+
+  // The webhook list is only seeded here; afterwards it is changed one secret at
+  // a time so a rotation in progress is never overwritten
+  const webhookSecrets = await readWebhookSecrets();
+  if (webhookSecrets.length > 0) {
+    console.log(`${secretNames.webhookSecrets} already holds ${webhookSecrets.length} secret(s); left unchanged`);
+  } else if (process.env.STRIPE_WEBHOOK_SECRET) {
+    await writeWebhookSecrets([process.env.STRIPE_WEBHOOK_SECRET]);
+    console.log(`Stored ${secretNames.webhookSecrets}: ${mask(process.env.STRIPE_WEBHOOK_SECRET)}`);
+  } else {
+    console.warn(`STRIPE_WEBHOOK_SECRET is not set; add one with --add-webhook-secret`);
+  }
+}
+
+async function list() {
+  const secretKey = await readSecret(secretNames.secretKey);
+  console.log(`${secretNames.secretKey}: ${secretKey ? mask(secretKey) : '(not stored)'}`);
+
+  const webhookSecrets = await readWebhookSecrets();
+  console.log(`${secretNames.webhookSecrets}: ${webhookSecrets.length} secret(s)`);
+  webhookSecrets.forEach((secret, index) => console.log(`  ${index + 1}. ${mask(secret)}`));
+}
+
+async function addWebhookSecret(secret: string) {
+  const webhookSecrets = await readWebhookSecrets();
+  if (webhookSecrets.includes(secret)) {
+    console.log(`${mask(secret)} is already accepted`);
+    return;
+  }
+  await writeWebhookSecrets([...webhookSecrets, secret]);
+  console.log(`Added ${mask(secret)}; ${webhookSecrets.length + 1} secret(s) now accepted`);
+}
+
+async function removeWebhookSecret(secret: string) {
+  const webhookSecrets = await readWebhookSecrets();
+  if (!webhookSecrets.includes(secret)) {
+    console.log(`${mask(secret)} is not in the list`);
+    return;
+  }
+  const remaining = webhookSecrets.filter(s => s !== secret);
+  if (remaining.length === 0) {
+    throw new Error('Refusing to remove the last webhook secret; every event would be rejected');
+  }
+  await writeWebhookSecrets(remaining);
+  console.log(`Removed ${mask(secret)}; ${remaining.length} secret(s) still accepted`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  switch (options.command) {
+    case 'store':
+      await store();
+      break;
+    case 'list':
+      await list();
+      break;
+    case 'add-webhook-secret':
+      await addWebhookSecret(options.secret);
+      break;
+    case 'remove-webhook-secret':
+      await removeWebhookSecret(options.secret);
+      break;
+  }
+}
+
+main().catch((error) => {
+  console.error('Error updating Stripe secrets:', error);
+  process.exitCode = 1;
+});
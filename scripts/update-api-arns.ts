@@ -1,14 +1,36 @@
-// scripts/update-api.ts
-import { 
-  APIGatewayClient, 
+// scripts/update-api-arns.ts
+// Points an API Gateway that is managed outside the stack (API_ID) at the deployed
+// functions, then deploys it to the stage named after ENV_STAGE. The routes and
+// the stack output holding each route's function come from scripts/api-routes.json.
+//
+//   npm run update-api -- --dry-run   # show current and new integrations, change nothing
+//   npm run update-api                # update integrations and permissions, then deploy
+//   npm run update-api -- --rollback  # put the stage back on the deployment it had before
+//
+// Each run records the stage's previous deployment and integration URIs in
+// api-deployment-<stage>.json, which is what --rollback restores.
+import * as fs from "fs";
+import * as path from "path";
+import {
+  APIGatewayClient,
+  CreateDeploymentCommand,
+  GetIntegrationCommand,
   GetResourcesCommand,
+  GetStageCommand,
+  Resource,
   UpdateIntegrationCommand,
-  CreateDeploymentCommand
+  UpdateStageCommand
 } from "@aws-sdk/client-api-gateway";
-import { 
-  CloudFormationClient, 
-  DescribeStacksCommand 
+import {
+  CloudFormationClient,
+  DescribeStacksCommand
 } from "@aws-sdk/client-cloudformation";
+import {
+  AddPermissionCommand,
+  GetPolicyCommand,
+  LambdaClient,
+  ResourceNotFoundException
+} from "@aws-sdk/client-lambda";
 import * as dotenv from 'dotenv';
 
 // Determine the environment
@@ -29,124 +51,299 @@ const config = {
 
 const apigateway = new APIGatewayClient(config);
 const cloudformation = new CloudFormationClient(config);
+const lambda = new LambdaClient(config);
 
-async function updateApiRoutes() {
-  try {
-    // Get stack outputs
-    const { Stacks } = await cloudformation.send(
-      new DescribeStacksCommand({
-        StackName: `StripeBackendStack-${environment}`
-      })
-    );
-
-    const stack = Stacks?.[0];
-    if (!stack) throw new Error('Stack not found');
+const MANIFEST_FILE = path.join(__dirname, 'api-routes.json');
+const DEPLOYMENT_RECORD_FILE = `api-deployment-${environment}.json`;
 
-    // Get function ARNs from stack outputs
-    const checkoutArn = stack.Outputs?.find(o => o.ExportName === `checkoutFunction-${environment}`)?.OutputValue;
-    const webhookArn = stack.Outputs?.find(o => o.ExportName === `webhookFunction-${environment}`)?.OutputValue;
-    const syncArn = stack.Outputs?.find(o => o.ExportName === `syncFunction-${environment}`)?.OutputValue;
-    const manageBillingFunction = stack.Outputs?.find(o => o.ExportName === `manageBillingFunction-${environment}`)?.OutputValue;
+type ApiRoute = {
+  path: string;
+  method: string;
+  // Key of the stack output holding the function ARN
+  output: string;
+};
 
-    if (!checkoutArn || !webhookArn || !syncArn || !manageBillingFunction) {
-      throw new Error('Function ARNs not found in stack outputs');
-    }
+type PlannedRoute = ApiRoute & {
+  resourceId: string;
+  functionArn: string;
+  currentUri?: string;
+  newUri: string;
+  sourceArn: string;
+  hasPermission: boolean;
+};
 
-    console.log('Found ARNs:', { checkoutArn, webhookArn, syncArn, manageBillingFunction });
+// The parts of a Lambda resource policy statement checked for API Gateway access
+type PolicyStatement = {
+  Effect: 'Allow' | 'Deny';
+  Principal?: { Service?: string };
+  Action: string | string[];
+  Condition?: {
+    ArnLike?: Record<string, string>;
+    ArnEquals?: Record<string, string>;
+  };
+};
 
-    // Get resource IDs
-    const { items: resources } = await apigateway.send(
-      new GetResourcesCommand({
-        restApiId: process.env.API_ID
-      })
-    );
+type DeploymentRecord = {
+  apiId: string;
+  stageName: string;
+  previousDeploymentId: string;
+  deploymentId?: string;
+  integrations: { path: string; method: string; resourceId: string; uri?: string }[];
+  updatedAt: string;
+};
 
-    const checkoutResource = resources?.find(r => r.path === '/subscription/checkout');
-    const webhookResource = resources?.find(r => r.path === '/subscription/webhook');
-    const syncResource = resources?.find(r => r.path === '/subscription/sync');
-    const manageBillingResource = resources?.find(r => r.path === '/subscription/manage');
+function parseArgs(argv: string[]): { dryRun: boolean; rollback: boolean } {
+  const options = { dryRun: false, rollback: false };
+  for (const arg of argv) {
+    switch (arg) {
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--rollback':
+        options.rollback = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
 
-    if (!checkoutResource?.id || !webhookResource?.id || !syncResource?.id || !manageBillingResource?.id) {
-      throw new Error('Resource IDs not found');
+function loadManifest(): ApiRoute[] {
+  const routes: ApiRoute[] = JSON.parse(fs.readFileSync(MANIFEST_FILE, 'utf8'));
+  for (const route of routes) {
+    if (!route.path?.startsWith('/') || !route.method || !route.output) {
+      throw new Error(`Invalid route in ${MANIFEST_FILE}: ${JSON.stringify(route)}`);
     }
+  }
+  return routes.map(route => ({ ...route, method: route.method.toUpperCase() }));
+}
 
-    // Update checkout route
-    await apigateway.send(
-      new UpdateIntegrationCommand({
-        restApiId: process.env.API_ID,
-        resourceId: checkoutResource.id,
-        httpMethod: 'POST',
-        patchOperations: [
-          {
-            op: 'replace',
-            path: '/uri',
-            value: `arn:aws:apigateway:${config.region}:lambda:path/2015-03-31/functions/${checkoutArn}/invocations`
-          }
-        ]
-      })
-    );
-    
-    await apigateway.send(
-      new UpdateIntegrationCommand({
-        restApiId: process.env.API_ID,
-        resourceId: manageBillingResource.id,
-        httpMethod: 'POST',
-        patchOperations: [
-          {
-            op: 'replace',
-            path: '/uri',
-            value: `arn:aws:apigateway:${config.region}:lambda:path/2015-03-31/functions/${manageBillingFunction}/invocations`
-          }
-        ]
-      })
-    );
+async function getStackOutputs(): Promise<Map<string, string>> {
+  const { Stacks } = await cloudformation.send(
+    new DescribeStacksCommand({
+      StackName: process.env.STACK_NAME || `StripeBackendStack-${environment}`
+    })
+  );
 
-    // Update webhook route
-    await apigateway.send(
-      new UpdateIntegrationCommand({
-        restApiId: process.env.API_ID,
-        resourceId: webhookResource.id,
-        httpMethod: 'POST',
-        patchOperations: [
-          {
-            op: 'replace',
-            path: '/uri',
-            value: `arn:aws:apigateway:${config.region}:lambda:path/2015-03-31/functions/${webhookArn}/invocations`
-          }
-        ]
-      })
-    );
+  const stack = Stacks?.[0];
+  if (!stack) throw new Error('Stack not found');
+  return new Map(
+    (stack.Outputs ?? []).map(output => [output.OutputKey!, output.OutputValue!])
+  );
+}
 
-    // Update sync route
-    await apigateway.send(
-      new UpdateIntegrationCommand({
-        restApiId: process.env.API_ID,
-        resourceId: syncResource.id,
-        httpMethod: 'POST',
-        patchOperations: [
-          {
-            op: 'replace',
-            path: '/uri',
-            value: `arn:aws:apigateway:${config.region}:lambda:path/2015-03-31/functions/${syncArn}/invocations`
-          }
-        ]
-      })
+async function getResources(apiId: string): Promise<Resource[]> {
+  const resources: Resource[] = [];
+  let position: string | undefined;
+  do {
+    const page = await apigateway.send(
+      new GetResourcesCommand({ restApiId: apiId, limit: 500, position })
     );
+    resources.push(...(page.items ?? []));
+    position = page.position;
+  } while (position);
+  return resources;
+}
 
-    // Create deployment
-    await apigateway.send(
-      new CreateDeploymentCommand({
-        restApiId: process.env.API_ID,
-        stageName: environment,
-        description: 'Updated Lambda integrations'
-      })
-    );
+const integrationUri = (functionArn: string) =>
+  `arn:aws:apigateway:${config.region}:lambda:path/2015-03-31/functions/${functionArn}/invocations`;
+
+// AWS:SourceArn conditions may use * wildcards
+function arnMatches(pattern: string, arn: string): boolean {
+  const regex = pattern.split('*').map(part => part.replace(/[.?+^$[\]\\(){}|-]/g, '\\$&')).join('.*');
+  return new RegExp(`^${regex}$`).test(arn);
+}
 
-    console.log('API routes updated and deployed successfully');
+async function hasInvokePermission(functionArn: string, sourceArn: string): Promise<boolean> {
+  let policy: string | undefined;
+  try {
+    ({ Policy: policy } = await lambda.send(new GetPolicyCommand({ FunctionName: functionArn })));
   } catch (error) {
-    console.error('Error updating API:', error);
+    if (error instanceof ResourceNotFoundException) return false;
     throw error;
   }
+
+  const statements: PolicyStatement[] = policy ? JSON.parse(policy).Statement ?? [] : [];
+  return statements.some(statement => {
+    const actions = [statement.Action].flat();
+    const allowed = statement.Condition?.ArnLike?.['AWS:SourceArn'] ?? statement.Condition?.ArnEquals?.['AWS:SourceArn'];
+    return statement.Effect === 'Allow'
+      && statement.Principal?.Service === 'apigateway.amazonaws.com'
+      && actions.some(action => action === 'lambda:InvokeFunction' || action === 'lambda:*')
+      && (!allowed || arnMatches(allowed, sourceArn));
+  });
+}
+
+async function planRoutes(apiId: string): Promise<PlannedRoute[]> {
+  const outputs = await getStackOutputs();
+  const resources = await getResources(apiId);
+
+  const planned: PlannedRoute[] = [];
+  for (const route of loadManifest()) {
+    const functionArn = outputs.get(route.output);
+    if (!functionArn) throw new Error(`Stack output ${route.output} not found (for ${route.method} ${route.path})`);
+
+    const resource = resources.find(r => r.path === route.path);
+    if (!resource?.id) throw new Error(`Resource ${route.path} not found in API ${apiId}`);
+
+    const integration = await apigateway.send(
+      new GetIntegrationCommand({ restApiId: apiId, resourceId: resource.id, httpMethod: route.method })
+    );
+
+    const account = functionArn.split(':')[4];
+    const sourceArn = `arn:aws:execute-api:${config.region}:${account}:${apiId}/*/${route.method}${route.path}`;
+    planned.push({
+      ...route,
+      resourceId: resource.id,
+      functionArn,
+      currentUri: integration.uri,
+      newUri: integrationUri(functionArn),
+      sourceArn,
+      hasPermission: await hasInvokePermission(functionArn, sourceArn)
+    });
+  }
+  return planned;
+}
+
+function printPlan(planned: PlannedRoute[]) {
+  for (const route of planned) {
+    const changed = route.currentUri !== route.newUri;
+    console.log(`${route.method} ${route.path}${changed ? '' : ' (unchanged)'}`);
+    if (changed) {
+      console.log(`  current: ${route.currentUri ?? '(none)'}`);
+      console.log(`  new:     ${route.newUri}`);
+    }
+    if (!route.hasPermission) {
+      console.log(`  missing lambda:InvokeFunction permission for ${route.sourceArn}`);
+    }
+  }
+}
+
+async function getStageDeploymentId(apiId: string): Promise<string> {
+  const { deploymentId } = await apigateway.send(
+    new GetStageCommand({ restApiId: apiId, stageName: environment })
+  );
+  if (!deploymentId) throw new Error(`Stage ${environment} has no deployment`);
+  return deploymentId;
+}
+
+function saveRecord(record: DeploymentRecord) {
+  fs.writeFileSync(DEPLOYMENT_RECORD_FILE, JSON.stringify(record, null, 2));
+}
+
+async function setIntegrationUri(apiId: string, resourceId: string, method: string, uri: string) {
+  await apigateway.send(
+    new UpdateIntegrationCommand({
+      restApiId: apiId,
+      resourceId,
+      httpMethod: method,
+      patchOperations: [{ op: 'replace', path: '/uri', value: uri }]
+    })
+  );
+}
+
+async function updateApiRoutes(apiId: string, dryRun: boolean) {
+  const planned = await planRoutes(apiId);
+  const previousDeploymentId = await getStageDeploymentId(apiId);
+
+  console.log(`API ${apiId}, stage ${environment} (deployment ${previousDeploymentId})`);
+  printPlan(planned);
+  if (dryRun) {
+    console.log('Dry run: nothing was changed');
+    return;
+  }
+
+  // Recorded before anything changes, so a failed run can still be rolled back
+  const record: DeploymentRecord = {
+    apiId,
+    stageName: environment,
+    previousDeploymentId,
+    integrations: planned.map(route => ({
+      path: route.path,
+      method: route.method,
+      resourceId: route.resourceId,
+      uri: route.currentUri
+    })),
+    updatedAt: new Date().toISOString()
+  };
+  saveRecord(record);
+
+  for (const route of planned) {
+    if (!route.hasPermission) {
+      await lambda.send(
+        new AddPermissionCommand({
+          FunctionName: route.functionArn,
+          StatementId: `apigateway-${apiId}-${route.method}${route.path.replace(/[^A-Za-z0-9]/g, '-')}`,
+          Action: 'lambda:InvokeFunction',
+          Principal: 'apigateway.amazonaws.com',
+          SourceArn: route.sourceArn
+        })
+      );
+      console.log(`Granted invoke on ${route.output} to ${route.method} ${route.path}`);
+    }
+    if (route.currentUri !== route.newUri) {
+      await setIntegrationUri(apiId, route.resourceId, route.method, route.newUri);
+      console.log(`Updated ${route.method} ${route.path}`);
+    }
+  }
+
+  const { id: deploymentId } = await apigateway.send(
+    new CreateDeploymentCommand({
+      restApiId: apiId,
+      stageName: environment,
+      description: 'Updated Lambda integrations'
+    })
+  );
+  saveRecord({ ...record, deploymentId });
+
+  console.log(`API routes updated and deployed (deployment ${deploymentId}, previously ${previousDeploymentId})`);
+}
+
+async function rollback(apiId: string) {
+  if (!fs.existsSync(DEPLOYMENT_RECORD_FILE)) {
+    throw new Error(`${DEPLOYMENT_RECORD_FILE} not found; there is no recorded deployment to roll back to`);
+  }
+  const record: DeploymentRecord = JSON.parse(fs.readFileSync(DEPLOYMENT_RECORD_FILE, 'utf8'));
+  if (record.apiId !== apiId || record.stageName !== environment) {
+    throw new Error(`${DEPLOYMENT_RECORD_FILE} is for API ${record.apiId} stage ${record.stageName}`);
+  }
+
+  // Restore the integrations too, so the next deployment does not bring the change back
+  for (const integration of record.integrations) {
+    if (integration.uri) {
+      await setIntegrationUri(apiId, integration.resourceId, integration.method, integration.uri);
+    }
+  }
+
+  await apigateway.send(
+    new UpdateStageCommand({
+      restApiId: apiId,
+      stageName: environment,
+      patchOperations: [{ op: 'replace', path: '/deploymentId', value: record.previousDeploymentId }]
+    })
+  );
+  console.log(`Stage ${environment} rolled back to deployment ${record.previousDeploymentId} (from ${record.deploymentId ?? 'an unfinished update'})`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Without API_ID the stack creates and wires up the API itself
+  const apiId = process.env.API_ID;
+  if (!apiId) {
+    console.log('API_ID is not set; the API is managed by the stack, nothing to update');
+    return;
+  }
+
+  if (options.rollback) {
+    await rollback(apiId);
+  } else {
+    await updateApiRoutes(apiId, options.dryRun);
+  }
 }
 
-updateApiRoutes().catch(console.error);
+main().catch((error) => {
+  console.error('Error updating API:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,83 @@
+// checkout-sessions.ts
+// The last Checkout Session created for a user is kept on their customer record,
+// so repeated clicks on subscribe return the same session instead of opening
+// parallel ones that could each start a subscription.
+import Stripe from 'stripe';
+
+export type OpenCheckoutSession = {
+  id: string;
+  url: string;
+  // Unix seconds, as Stripe reports it
+  expiresAt: number;
+  // What the session sells (see checkoutKey); a different purchase needs a new session
+  key: string;
+};
+
+export type StoredSessionState =
+  | { state: 'none' }
+  | { state: 'reusable'; url: string }
+  // A completed subscription checkout; the sync may not have seen its subscription yet
+  | { state: 'completed'; subscriptionId: string };
+
+// Sessions this close to expiring are replaced rather than handed out again
+const MIN_REMAINING_SECONDS = 5 * 60;
+
+export function checkoutKey(purchase: {
+  mode: Stripe.Checkout.SessionCreateParams.Mode;
+  priceId: string;
+  quantity: number;
+  promotionCodeId: string | null;
+}): string {
+  return [purchase.mode, purchase.priceId, purchase.quantity, purchase.promotionCodeId ?? ''].join(':');
+}
+
+export function toOpenCheckoutSession(session: Stripe.Checkout.Session, key: string): OpenCheckoutSession {
+  return { id: session.id, url: session.url!, expiresAt: session.expires_at, key };
+}
+
+/**
+ * Decides what to do with the user's stored session: hand it out again, report a
+ * completed subscription checkout, or start over. An open session for a different
+ * purchase is expired first, so the user can't complete both.
+ */
+export async function checkStoredSession(
+  stripe: Stripe,
+  stored: OpenCheckoutSession | undefined,
+  key: string
+): Promise<StoredSessionState> {
+  if (!stored) {
+    return { state: 'none' };
+  }
+
+  let session: Stripe.Checkout.Session;
+  try {
+    session = await stripe.checkout.sessions.retrieve(stored.id);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
+      return { state: 'none' };
+    }
+    throw error;
+  }
+
+  if (session.status === 'complete') {
+    const subscription = session.subscription;
+    if (session.mode !== 'subscription' || !subscription) {
+      return { state: 'none' };
+    }
+    return {
+      state: 'completed',
+      subscriptionId: typeof subscription === 'string' ? subscription : subscription.id,
+    };
+  }
+  if (session.status !== 'open') {
+    return { state: 'none' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (stored.key === key && session.expires_at - now > MIN_REMAINING_SECONDS && session.url) {
+    return { state: 'reusable', url: session.url };
+  }
+
+  await stripe.checkout.sessions.expire(session.id);
+  return { state: 'none' };
+}
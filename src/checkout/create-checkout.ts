@@ -1,125 +1,316 @@
 // create-checkout.ts
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import Stripe from 'stripe';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { 
-  DynamoDBDocumentClient, 
-  GetCommand, 
-  PutCommand 
-} from '@aws-sdk/lib-dynamodb';
+import { checkoutKey, checkStoredSession, toOpenCheckoutSession } from './checkout-sessions';
+import { CheckoutRequest, parsePriceCatalog, resolvePlanPrice } from './price-catalog';
+import { validatePromotionCode } from './promotion-codes';
+import { endedStatuses } from '../sync/subscription-data';
+import { createPortalSession, PORTAL_RETURN_PATHS } from '../manage/portal-flows';
+import { loadStripeClient, stripeClient } from '../shared/clients';
+import { corsHeaders } from '../shared/cors';
+import { createCustomer, getCustomer, updateCustomer } from '../shared/customer-repository';
+import { addLogContext, logger, resetLogContext } from '../shared/logger';
+import { putMetric } from '../shared/metrics';
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
-const client = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(client);
+const PRICE_CATALOG = parsePriceCatalog(process.env.PRICE_CATALOG);
 
-const CUSTOMER_TABLE = (process.env.CUSTOMER_TABLE as string);
+async function portalUrl(stripeCustomerId: string): Promise<string | null> {
+  try {
+    // Opens the portal's home page with its default return path, like POST /subscription/manage
+    const session = await createPortalSession(
+      stripeCustomerId,
+      process.env.APP_URL + PORTAL_RETURN_PATHS[0]
+    );
+    return session.url;
+  } catch (error) {
+    logger.warn('Failed to create billing portal session for conflict response', { error });
+    return null;
+  }
+}
+
+async function removeOrphanedCustomer(stripeCustomerId: string): Promise<void> {
+  try {
+    await stripeClient().customers.del(stripeCustomerId);
+  } catch (error) {
+    // Harmless apart from the clutter; the customer has no subscriptions
+    logger.warn('Failed to delete orphaned Stripe customer', { stripeCustomerId, error });
+  }
+}
 
 export const handler = async (
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> => {
-  console.log('Received checkout request:', { 
+  resetLogContext({
+    requestId: event.requestContext.requestId,
+    correlationId: event.requestContext.requestId,
+    userId: event.requestContext.authorizer?.claims?.sub,
+  });
+  logger.info('Received checkout request', { 
     path: event.path,
-    method: event.httpMethod,
-    userId: event.requestContext.authorizer?.claims?.sub 
+    method: event.httpMethod
+  });
+
+  const headers = corsHeaders(event);
+  const badRequest = (error: string): APIGatewayProxyResult => ({
+    statusCode: 400,
+    headers,
+    body: JSON.stringify({ error })
   });
 
   try {
+    await loadStripeClient();
+
     // Get user from Cognito authorizer
     const user = event.requestContext.authorizer?.claims;
     if (!user?.sub || !user?.email) {
-      console.log('Unauthorized request - missing user claims');
+      logger.info('Unauthorized request - missing user claims');
       return {
         statusCode: 401,
+        headers,
         body: JSON.stringify({ error: 'Unauthorized' })
       };
     }
 
-    console.log('Fetching stripe customer ID for user:', user.sub);
-    // Get stripeCustomerId from DynamoDB
-    let stripeCustomerId: string | null = null;
+    // Validate the requested plan before touching Stripe
+    let checkoutRequest: CheckoutRequest;
     try {
-      const { Item } = await docClient.send(new GetCommand({
-        TableName: CUSTOMER_TABLE,
-        Key: {
-          userId: user.sub
-        }
-      }));
-      
-      console.log('DynamoDB lookup result:', { 
-        hasCustomerId: !!Item?.stripeCustomerId,
-        email: Item?.email 
+      checkoutRequest = event.body ? JSON.parse(event.body) : {};
+    } catch {
+      return badRequest('Request body must be valid JSON');
+    }
+    if (typeof checkoutRequest !== 'object' || checkoutRequest === null) {
+      return badRequest('Request body must be a JSON object');
+    }
+
+    const resolution = resolvePlanPrice(PRICE_CATALOG, checkoutRequest);
+    if (!resolution.ok) {
+      logger.info('Rejected checkout request', { error: resolution.error });
+      return badRequest(resolution.error);
+    }
+    const selection = resolution.value;
+    logger.info('Resolved plan', { ...selection });
+
+    const { promotionCode } = checkoutRequest;
+    if (
+      promotionCode !== undefined &&
+      (typeof promotionCode !== 'string' || !promotionCode.trim())
+    ) {
+      return badRequest('Promotion code must be a non-empty string');
+    }
+
+    logger.info('Fetching stripe customer ID for user');
+    // Get stripeCustomerId from DynamoDB. A failed lookup fails the request, since
+    // going on could subscribe an existing subscriber a second time.
+    const customer = await getCustomer(user.sub);
+    logger.info('DynamoDB lookup result', { 
+      hasCustomerId: !!customer?.stripeCustomerId,
+      email: customer?.email 
+    });
+    let stripeCustomerId = customer?.stripeCustomerId ?? null;
+    addLogContext({ stripeCustomerId: stripeCustomerId ?? undefined });
+    // Trials are only offered on a customer's first subscription
+    const hadSubscription = (customer?.subscriptionCount ?? 0) > 0;
+
+    // Subscribers change plans (or settle a past-due or paused subscription) in
+    // the billing portal instead of buying a second subscription
+    if (
+      selection.mode === 'subscription' &&
+      stripeCustomerId &&
+      customer?.status &&
+      !endedStatuses.includes(customer.status)
+    ) {
+      logger.info('Rejected checkout for existing subscriber', { status: customer.status });
+      putMetric('CheckoutFailed', 1, { reason: 'subscribed' });
+      return {
+        statusCode: 409,
+        headers,
+        body: JSON.stringify({
+          error: 'Already subscribed',
+          portalUrl: await portalUrl(stripeCustomerId),
+        })
+      };
+    }
+
+    // Check the promotion code before creating anything in Stripe
+    let promotionCodeId: string | null = null;
+    if (promotionCode) {
+      const check = await validatePromotionCode(stripeClient(), promotionCode.trim(), {
+        stripeCustomerId,
+        isFirstPurchase: !hadSubscription,
       });
-      stripeCustomerId = Item?.stripeCustomerId ?? null;
-    } catch (error) {
-      console.error('DynamoDB get error:', error);
+      if (!check.ok) {
+        logger.info('Rejected promotion code', { promotionCode, error: check.error });
+        return badRequest(check.error);
+      }
+      promotionCodeId = check.promotionCodeId;
+    }
+
+    // Hand out the session the user already has open for this purchase, if any
+    const sessionKey = checkoutKey({ ...selection, promotionCodeId });
+    const stored = await checkStoredSession(stripeClient(), customer?.openCheckoutSession, sessionKey);
+    if (stored.state === 'reusable') {
+      logger.info('Reusing open checkout session', { sessionId: customer?.openCheckoutSession?.id });
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ url: stored.url })
+      };
+    }
+    // Until the sync has stored the subscription, the check for existing subscribers
+    // above can't see it. Once it has, that check decides (e.g. after a cancellation).
+    if (
+      stored.state === 'completed' &&
+      selection.mode === 'subscription' &&
+      customer?.subscriptionId !== stored.subscriptionId
+    ) {
+      logger.info('Rejected checkout after a completed subscription checkout', {
+        sessionId: customer?.openCheckoutSession?.id,
+        subscriptionId: stored.subscriptionId
+      });
+      putMetric('CheckoutFailed', 1, { reason: 'subscribed' });
+      return {
+        statusCode: 409,
+        headers,
+        body: JSON.stringify({ error: 'A subscription checkout has already been completed' })
+      };
     }
 
     // Create new Stripe customer if doesn't exist
     if (!stripeCustomerId) {
-      console.log('Creating new Stripe customer for user:', user.sub);
+      logger.info('Creating new Stripe customer for user');
       let newCustomer: Stripe.Customer;
       try {
-        newCustomer = await stripe.customers.create({
+        newCustomer = await stripeClient().customers.create({
           email: user.email,
           metadata: {
             userId: user.sub,
           },
         });
-        console.log('Successfully created Stripe customer:', newCustomer.id);
+        logger.info('Successfully created Stripe customer', { stripeCustomerId: newCustomer.id });
       } catch (error) {
-        console.error('Failed to create Stripe customer:', error);
+        logger.error('Failed to create Stripe customer', { error });
+        putMetric('CheckoutFailed', 1, { reason: 'customer' });
         return {
           statusCode: 500,
+          headers,
           body: JSON.stringify({ error: 'Failed to create stripe customer' })
         };
       }
 
-      console.log('Storing new customer ID in DynamoDB');
-      // Store the customer ID
-      await docClient.send(new PutCommand({
-        TableName: CUSTOMER_TABLE,
-        Item: {
-          userId: user.sub,
-          stripeCustomerId: newCustomer.id,
-          email: user.email,
-          createdAt: new Date().toISOString()
-        }
-      }));
+      logger.info('Storing new customer ID in DynamoDB');
+      // Store the customer ID, unless a parallel request stored one first; its
+      // customer is kept and ours is removed
+      const created = await createCustomer({
+        userId: user.sub,
+        stripeCustomerId: newCustomer.id,
+        email: user.email,
+        createdAt: new Date().toISOString()
+      });
 
-      stripeCustomerId = newCustomer.id;
+      stripeCustomerId = created.customer.stripeCustomerId;
+      addLogContext({ stripeCustomerId });
+      if (stripeCustomerId !== newCustomer.id) {
+        logger.warn('Customer was created by a parallel request; removing ours', {
+          orphanedCustomerId: newCustomer.id
+        });
+        await removeOrphanedCustomer(newCustomer.id);
+      }
     }
 
-    console.log('Creating checkout session for customer:', stripeCustomerId);
-    // Create checkout session
-    const checkout = await stripe.checkout.sessions.create({
-      customer: stripeCustomerId,
-      mode: 'subscription',
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price: process.env.STRIPE_PRICE_ID,
-          quantity: 1,
+    const trialDays = hadSubscription ? null : selection.trialDays;
+    const trialOptions: Partial<Stripe.Checkout.SessionCreateParams> = trialDays
+      ? {
+          subscription_data: {
+            trial_period_days: trialDays,
+            // A trial started without a card ends the subscription instead of invoicing it
+            trial_settings: {
+              end_behavior: { missing_payment_method: 'cancel' },
+            },
+          },
+          payment_method_collection: selection.trialRequiresPaymentMethod
+            ? 'always'
+            : 'if_required',
+        }
+      : {};
+
+    // One-time purchases carry the user on the payment intent as well, so the
+    // payment can be traced back from the Stripe dashboard
+    const paymentOptions: Partial<Stripe.Checkout.SessionCreateParams> = {
+      payment_intent_data: {
+        metadata: {
+          userId: user.sub,
+          plan: selection.plan,
         },
-      ],
-      success_url: `${process.env.APP_URL}/success`,
-      cancel_url: `${process.env.APP_URL}/subscribe`,
+      },
+    };
+
+    // Stripe rejects a pre-applied discount together with the promotion-code field
+    const discountOptions: Partial<Stripe.Checkout.SessionCreateParams> = promotionCodeId
+      ? { discounts: [{ promotion_code: promotionCodeId }] }
+      : { allow_promotion_codes: selection.allowPromotionCodes };
+
+    logger.info('Creating checkout session for customer', {
+      trialDays,
+      mode: selection.mode,
+      promotionCodeId,
     });
+    // Create checkout session
+    let checkout: Stripe.Checkout.Session;
+    try {
+      checkout = await stripeClient().checkout.sessions.create({
+        customer: stripeCustomerId,
+        mode: selection.mode,
+        payment_method_types: ['card'],
+        ...(selection.mode === 'payment' ? paymentOptions : trialOptions),
+        ...discountOptions,
+        line_items: [
+          {
+            price: selection.priceId,
+            quantity: selection.quantity,
+          },
+        ],
+        metadata: {
+          userId: user.sub,
+          plan: selection.plan,
+        },
+        success_url: `${process.env.APP_URL}/success`,
+        cancel_url: `${process.env.APP_URL}/subscribe`,
+      });
+    } catch (error) {
+      // e.g. a coupon restricted to other products
+      if (
+        promotionCodeId &&
+        error instanceof Stripe.errors.StripeInvalidRequestError &&
+        error.param?.startsWith('discounts')
+      ) {
+        logger.info('Stripe rejected promotion code', { error: error.message });
+        return badRequest('Promotion code cannot be applied to this plan');
+      }
+      throw error;
+    }
 
-    console.log('Successfully created checkout session:', checkout.id);
+    logger.info('Successfully created checkout session', { sessionId: checkout.id });
+    await updateCustomer(user.sub, {
+      openCheckoutSession: toOpenCheckoutSession(checkout, sessionKey),
+    });
+    putMetric('CheckoutSessionCreated', 1, {
+      plan: selection.plan,
+      mode: selection.mode,
+      trial: !!trialDays,
+    });
 
     return {
       statusCode: 200,
-      headers: {
-        'Access-Control-Allow-Origin': process.env.APP_URL as string,
-        'Access-Control-Allow-Credentials': true,
-      },
+      headers,
       body: JSON.stringify({ url: checkout.url })
     };
 
   } catch (error) {
-    console.error('Checkout error:', error);
+    logger.error('Checkout error', { error });
+    putMetric('CheckoutFailed', 1, { reason: 'session' });
     return {
       statusCode: 500,
+      headers,
       body: JSON.stringify({ error: 'Failed to create checkout session' })
     };
   }
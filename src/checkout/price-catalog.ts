@@ -0,0 +1,160 @@
+// price-catalog.ts
+// The catalog is defined per environment in lib/stripe-stack.ts and handed to
+// the checkout function as JSON through the PRICE_CATALOG environment variable.
+
+export type BillingInterval = "month" | "year";
+
+export type SubscriptionPlan = {
+  mode?: "subscription";
+  // Stripe price IDs keyed by billing interval. An interval without a price is not offered.
+  prices: Partial<Record<BillingInterval, string>>;
+  defaultInterval: BillingInterval;
+  maxQuantity: number;
+  // Free trial length for a customer's first subscription
+  trialDays?: number;
+  // Set to false to start the trial without collecting a card up front
+  trialRequiresPaymentMethod?: boolean;
+  // Show Stripe's promotion-code field on the checkout page
+  allowPromotionCodes?: boolean;
+};
+
+// One-time purchases such as credit packs or lifetime licenses
+export type OneTimePlan = {
+  mode: "payment";
+  price?: string;
+  maxQuantity: number;
+  allowPromotionCodes?: boolean;
+};
+
+export type CatalogPlan = SubscriptionPlan | OneTimePlan;
+
+export type PriceCatalog = {
+  // Plan used when the client does not send one (keeps older frontends working)
+  defaultPlan: string;
+  plans: Record<string, CatalogPlan>;
+};
+
+export type CheckoutRequest = {
+  plan?: unknown;
+  interval?: unknown;
+  quantity?: unknown;
+  promotionCode?: unknown;
+};
+
+export type ResolvedPlanPrice = {
+  plan: string;
+  mode: "subscription" | "payment";
+  interval: BillingInterval | null; // Null for one-time purchases
+  priceId: string;
+  quantity: number;
+  trialDays: number | null;
+  trialRequiresPaymentMethod: boolean;
+  allowPromotionCodes: boolean;
+};
+
+export type PlanResolution =
+  | { ok: true; value: ResolvedPlanPrice }
+  | { ok: false; error: string };
+
+const intervals: BillingInterval[] = ["month", "year"];
+
+export function parsePriceCatalog(raw: string | undefined): PriceCatalog {
+  if (!raw) {
+    throw new Error("PRICE_CATALOG is not configured");
+  }
+
+  const catalog = JSON.parse(raw) as PriceCatalog;
+  if (!catalog.plans?.[catalog.defaultPlan]) {
+    throw new Error(`Default plan "${catalog.defaultPlan}" is not in the price catalog`);
+  }
+  return catalog;
+}
+
+// Every price a plan can be bought with
+export function planPriceIds(plan: CatalogPlan): string[] {
+  const prices = plan.mode === "payment" ? [plan.price] : Object.values(plan.prices);
+  return prices.filter((priceId): priceId is string => !!priceId);
+}
+
+function resolveQuantity(quantity: unknown, maxQuantity: number): number | null {
+  const value = quantity ?? 1;
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > maxQuantity
+  ) {
+    return null;
+  }
+  return value;
+}
+
+// Checks a client checkout request against the catalog. Clients only ever name
+// a plan; the Stripe price ID always comes from the server-side catalog.
+export function resolvePlanPrice(
+  catalog: PriceCatalog,
+  request: CheckoutRequest
+): PlanResolution {
+  const planKey = request.plan ?? catalog.defaultPlan;
+  if (
+    typeof planKey !== "string" ||
+    !Object.prototype.hasOwnProperty.call(catalog.plans, planKey)
+  ) {
+    return { ok: false, error: "Unknown plan" };
+  }
+  const plan = catalog.plans[planKey];
+
+  const quantity = resolveQuantity(request.quantity, plan.maxQuantity);
+  if (quantity === null) {
+    return {
+      ok: false,
+      error: `Quantity must be a whole number between 1 and ${plan.maxQuantity}`,
+    };
+  }
+
+  if (plan.mode === "payment") {
+    if (request.interval !== undefined) {
+      return { ok: false, error: `Plan "${planKey}" is a one-time purchase and has no interval` };
+    }
+    if (!plan.price) {
+      return { ok: false, error: "Unknown plan" };
+    }
+    return {
+      ok: true,
+      value: {
+        plan: planKey,
+        mode: "payment",
+        interval: null,
+        priceId: plan.price,
+        quantity,
+        trialDays: null,
+        trialRequiresPaymentMethod: true,
+        allowPromotionCodes: plan.allowPromotionCodes ?? false,
+      },
+    };
+  }
+
+  const interval = request.interval ?? plan.defaultInterval;
+  if (!intervals.includes(interval as BillingInterval)) {
+    return { ok: false, error: "Interval must be one of: month, year" };
+  }
+
+  const priceId = plan.prices[interval as BillingInterval];
+  if (!priceId) {
+    return { ok: false, error: `Plan "${planKey}" is not available with a ${interval}ly interval` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      plan: planKey,
+      mode: "subscription",
+      interval: interval as BillingInterval,
+      priceId,
+      quantity,
+      trialDays: plan.trialDays ?? null,
+      trialRequiresPaymentMethod: plan.trialRequiresPaymentMethod ?? true,
+      allowPromotionCodes: plan.allowPromotionCodes ?? false,
+    },
+  };
+}
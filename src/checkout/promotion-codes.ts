@@ -0,0 +1,55 @@
+// promotion-codes.ts
+// Looks up a customer-facing promotion code and explains why it can't be used,
+// so checkout can return a clear 400 instead of a generic Stripe error.
+import type Stripe from 'stripe';
+
+export type PromotionCodeCheck =
+  | { ok: true; promotionCodeId: string }
+  | { ok: false; error: string };
+
+export async function validatePromotionCode(
+  stripe: Stripe,
+  code: string,
+  context: { stripeCustomerId: string | null; isFirstPurchase: boolean }
+): Promise<PromotionCodeCheck> {
+  // Not filtered on active, so an expired code can be reported as expired
+  const { data } = await stripe.promotionCodes.list({ code, limit: 10 });
+  const matches = data.filter(
+    (promotionCode) => promotionCode.code.toLowerCase() === code.toLowerCase()
+  );
+  if (matches.length === 0) {
+    return { ok: false, error: 'Promotion code is invalid' };
+  }
+
+  const promotionCode = matches.find((match) => match.active) ?? matches[0];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (promotionCode.expires_at !== null && promotionCode.expires_at <= now) {
+    return { ok: false, error: 'Promotion code has expired' };
+  }
+  if (
+    promotionCode.max_redemptions !== null &&
+    promotionCode.times_redeemed >= promotionCode.max_redemptions
+  ) {
+    return { ok: false, error: 'Promotion code has reached its redemption limit' };
+  }
+  if (!promotionCode.coupon.valid) {
+    return { ok: false, error: 'Promotion code has expired' };
+  }
+  if (!promotionCode.active) {
+    return { ok: false, error: 'Promotion code is no longer active' };
+  }
+
+  const restrictedTo =
+    typeof promotionCode.customer === 'string'
+      ? promotionCode.customer
+      : promotionCode.customer?.id ?? null;
+  if (restrictedTo && restrictedTo !== context.stripeCustomerId) {
+    return { ok: false, error: 'Promotion code is not valid for this account' };
+  }
+  if (promotionCode.restrictions.first_time_transaction && !context.isFirstPurchase) {
+    return { ok: false, error: 'Promotion code is only valid on a first purchase' };
+  }
+
+  return { ok: true, promotionCodeId: promotionCode.id };
+}
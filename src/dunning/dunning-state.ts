@@ -0,0 +1,271 @@
+// dunning-state.ts
+// Failed-payment ("dunning") state machine, stored on the customer record:
+//
+//   (none) --invoice.payment_failed--> grace --grace period ends--> expired
+//     ^                                  |                             |
+//     +-----------invoice.paid-----------+-------------invoice.paid----+
+//
+// During the grace period the user keeps access and gets reminders
+// (src/dunning/process-dunning.ts). Once it expires, sync stops granting
+// access through past-due subscriptions.
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { dynamoClient } from "../shared/clients";
+import type { DunningFields } from "../shared/customer-repository";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export type DunningStatus = "grace" | "expired";
+
+export type DunningState = {
+  status: DunningStatus;
+  failureCount: number;
+  firstFailedAt: number; // Unix seconds
+  lastFailedAt: number;
+  lastInvoiceId: string;
+  graceEndsAt: number;
+  remindersSent: number;
+};
+
+// Stored as flat attributes so one update can open or extend the state, and so
+// dunningStatus/dunningGraceEndsAt can key the sparse dunning-index. Clearing
+// removes them but keeps dunningClearedAt, the time of the payment that cleared them.
+const attributes = [
+  "dunningStatus",
+  "dunningFailureCount",
+  "dunningFirstFailedAt",
+  "dunningLastFailedAt",
+  "dunningLastInvoiceId",
+  "dunningGraceEndsAt",
+  "dunningRemindersSent",
+  "dunningExpiryPending",
+];
+
+export function gracePeriodDays(): number {
+  return Number(process.env.DUNNING_GRACE_DAYS ?? 7);
+}
+
+// Days after the first failure on which a reminder is sent, e.g. "1,3,5"
+export function reminderDays(): number[] {
+  return (process.env.DUNNING_REMINDER_DAYS ?? "1,3,5")
+    .split(",")
+    .map(Number)
+    .filter((day) => Number.isFinite(day) && day > 0)
+    .sort((a, b) => a - b);
+}
+
+export function readDunningState(
+  item: Partial<DunningFields> | null | undefined
+): DunningState | null {
+  if (!item?.dunningStatus) {
+    return null;
+  }
+  // recordPaymentFailure sets them all together, so they exist along with the status
+  const fields = item as DunningFields;
+  return {
+    status: fields.dunningStatus,
+    failureCount: fields.dunningFailureCount,
+    firstFailedAt: fields.dunningFirstFailedAt,
+    lastFailedAt: fields.dunningLastFailedAt,
+    lastInvoiceId: fields.dunningLastInvoiceId,
+    graceEndsAt: fields.dunningGraceEndsAt,
+    remindersSent: fields.dunningRemindersSent,
+  };
+}
+
+/**
+ * Whether an invoice event created at createdAt is newer than the last failure
+ * and the last clear, i.e. whether recordPaymentFailure or clearDunning would
+ * apply it. A retry of an event that was already applied is not newer.
+ */
+export function isNewerThanDunning(
+  item: Partial<DunningFields> | null | undefined,
+  createdAt: number
+): boolean {
+  return (
+    (item?.dunningLastFailedAt ?? 0) < createdAt && (item?.dunningClearedAt ?? 0) < createdAt
+  );
+}
+
+/**
+ * The state recordPaymentFailure writes for a failure at failedAt, given the
+ * current state. Lets the notification go out before the state is written.
+ */
+export function nextFailureState(
+  current: DunningState | null,
+  invoiceId: string,
+  failedAt: number
+): DunningState {
+  return {
+    status: current?.status ?? "grace",
+    failureCount: (current?.failureCount ?? 0) + 1,
+    firstFailedAt: current?.firstFailedAt ?? failedAt,
+    lastFailedAt: failedAt,
+    lastInvoiceId: invoiceId,
+    graceEndsAt: current?.graceEndsAt ?? failedAt + gracePeriodDays() * DAY_SECONDS,
+    remindersSent: current?.remindersSent ?? 0,
+  };
+}
+
+/**
+ * Records a failed invoice payment. The first failure opens the grace period;
+ * later failures only bump the counters. Events are applied in the order Stripe
+ * created them: a retried or replayed failure, or one older than the last
+ * failure or the last clear, changes nothing and returns null. Otherwise returns
+ * the updated state.
+ */
+export async function recordPaymentFailure(
+  userId: string,
+  invoiceId: string,
+  failedAt: number
+): Promise<DunningState | null> {
+  try {
+    const { Attributes } = await dynamoClient().send(
+      new UpdateCommand({
+        TableName: process.env.CUSTOMER_TABLE!,
+        Key: { userId },
+        ConditionExpression: [
+          "attribute_exists(userId)",
+          "(attribute_not_exists(dunningLastFailedAt) OR dunningLastFailedAt < :failedAt)",
+          "(attribute_not_exists(dunningClearedAt) OR dunningClearedAt < :failedAt)",
+        ].join(" AND "),
+        UpdateExpression: [
+          "SET dunningStatus = if_not_exists(dunningStatus, :grace),",
+          "dunningFirstFailedAt = if_not_exists(dunningFirstFailedAt, :failedAt),",
+          "dunningGraceEndsAt = if_not_exists(dunningGraceEndsAt, :graceEndsAt),",
+          "dunningRemindersSent = if_not_exists(dunningRemindersSent, :zero),",
+          "dunningLastFailedAt = :failedAt, dunningLastInvoiceId = :invoiceId",
+          "ADD dunningFailureCount :one",
+        ].join(" "),
+        ExpressionAttributeValues: {
+          ":grace": "grace",
+          ":failedAt": failedAt,
+          ":graceEndsAt": failedAt + gracePeriodDays() * DAY_SECONDS,
+          ":invoiceId": invoiceId,
+          ":zero": 0,
+          ":one": 1,
+        },
+        ReturnValues: "ALL_NEW",
+      })
+    );
+    return readDunningState(Attributes);
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Clears dunning state after a successful payment made at paidAt (the event's
+ * created time), which is remembered so late failures from before it are
+ * ignored. Returns the state that was cleared, or null if the customer was not
+ * in dunning, failed again after paidAt, or the payment was already applied.
+ */
+export async function clearDunning(userId: string, paidAt: number): Promise<DunningState | null> {
+  try {
+    const { Attributes } = await dynamoClient().send(
+      new UpdateCommand({
+        TableName: process.env.CUSTOMER_TABLE!,
+        Key: { userId },
+        ConditionExpression: [
+          "attribute_exists(userId)",
+          "(attribute_not_exists(dunningLastFailedAt) OR dunningLastFailedAt < :paidAt)",
+          "(attribute_not_exists(dunningClearedAt) OR dunningClearedAt < :paidAt)",
+        ].join(" AND "),
+        UpdateExpression: `SET dunningClearedAt = :paidAt REMOVE ${attributes.join(", ")}`,
+        ExpressionAttributeValues: {
+          ":paidAt": paidAt,
+        },
+        ReturnValues: "ALL_OLD",
+      })
+    );
+    return readDunningState(Attributes);
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Moves a customer from grace to expired, marking the expiry pending until
+ * acknowledgeExpiry. Returns false if the state changed in the meantime (e.g.
+ * the invoice was paid).
+ */
+export async function expireGracePeriod(userId: string, graceEndsAt: number): Promise<boolean> {
+  try {
+    await dynamoClient().send(
+      new UpdateCommand({
+        TableName: process.env.CUSTOMER_TABLE!,
+        Key: { userId },
+        ConditionExpression: "dunningStatus = :grace AND dunningGraceEndsAt = :graceEndsAt",
+        UpdateExpression: "SET dunningStatus = :expired, dunningExpiryPending = :pending",
+        ExpressionAttributeValues: {
+          ":grace": "grace",
+          ":expired": "expired",
+          ":graceEndsAt": graceEndsAt,
+          ":pending": true,
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Notes that the expiry's notification and resync went out. Does nothing if the
+ * customer left dunning in the meantime.
+ */
+export async function acknowledgeExpiry(userId: string): Promise<void> {
+  try {
+    await dynamoClient().send(
+      new UpdateCommand({
+        TableName: process.env.CUSTOMER_TABLE!,
+        Key: { userId },
+        ConditionExpression: "dunningStatus = :expired",
+        UpdateExpression: "REMOVE dunningExpiryPending",
+        ExpressionAttributeValues: { ":expired": "expired" },
+      })
+    );
+  } catch (error) {
+    if (!(error instanceof ConditionalCheckFailedException)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Records that the next reminder was sent. Returns false if another run already
+ * recorded it or the state changed.
+ */
+export async function recordReminder(userId: string, remindersSent: number): Promise<boolean> {
+  try {
+    await dynamoClient().send(
+      new UpdateCommand({
+        TableName: process.env.CUSTOMER_TABLE!,
+        Key: { userId },
+        ConditionExpression: "dunningStatus = :grace AND dunningRemindersSent = :sent",
+        UpdateExpression: "SET dunningRemindersSent = :next",
+        ExpressionAttributeValues: {
+          ":grace": "grace",
+          ":sent": remindersSent,
+          ":next": remindersSent + 1,
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,149 @@
+// process-dunning.ts
+// Runs on a schedule. Sends due reminders to customers in their grace period and
+// downgrades access (through a resync) once the grace period runs out. Reminders
+// and expiries are only recorded as done once their side effects succeeded, so a
+// failed run is retried by the next one.
+import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { InvokeCommand } from "@aws-sdk/client-lambda";
+import type { ScheduledHandler } from "aws-lambda";
+import { publishEvent } from "../shared/event-bus";
+import {
+  acknowledgeExpiry,
+  DunningState,
+  DunningStatus,
+  expireGracePeriod,
+  readDunningState,
+  recordReminder,
+  reminderDays,
+} from "./dunning-state";
+import { dynamoClient, lambdaClient } from "../shared/clients";
+import { getLogContext, logger, resetLogContext } from "../shared/logger";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+type DunningCustomer = {
+  userId: string;
+  stripeCustomerId: string;
+  dunning: DunningState;
+};
+
+// Expired customers are only listed while their expiry is pending
+async function listCustomers(status: DunningStatus): Promise<DunningCustomer[]> {
+  const customers: DunningCustomer[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { Items, LastEvaluatedKey } = await dynamoClient().send(
+      new QueryCommand({
+        TableName: process.env.CUSTOMER_TABLE!,
+        IndexName: "dunning-index",
+        KeyConditionExpression: "dunningStatus = :status",
+        FilterExpression:
+          status === "expired" ? "attribute_exists(dunningExpiryPending)" : undefined,
+        ExpressionAttributeValues: { ":status": status },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    for (const item of Items ?? []) {
+      customers.push({
+        userId: item.userId,
+        stripeCustomerId: item.stripeCustomerId,
+        dunning: readDunningState(item)!,
+      });
+    }
+    exclusiveStartKey = LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return customers;
+}
+
+// An expiry stays pending until the notification and the resync went out; a
+// pending one (status already expired) only repeats them.
+async function expire(customer: DunningCustomer): Promise<void> {
+  const { userId, stripeCustomerId, dunning } = customer;
+  if (dunning.status === "expired") {
+    logger.info("Retrying pending grace period expiry", { userId });
+  } else if (await expireGracePeriod(userId, dunning.graceEndsAt)) {
+    logger.info("Grace period expired", { userId, graceEndsAt: dunning.graceEndsAt });
+  } else {
+    logger.info("Dunning state changed, not expiring", { userId });
+    return;
+  }
+
+  await publishEvent("dunning.grace_expired", {
+    userId,
+    stripeCustomerId,
+    failureCount: dunning.failureCount,
+    firstFailedAt: dunning.firstFailedAt,
+    graceEndsAt: dunning.graceEndsAt,
+  });
+
+  // Sync recomputes entitlements and Cognito attributes without past-due access
+  await lambdaClient().send(
+    new InvokeCommand({
+      FunctionName: process.env.STRIPE_SYNC_FUNCTION_NAME!,
+      InvocationType: "Event",
+      Payload: Buffer.from(
+        JSON.stringify({ userId, correlationId: getLogContext().correlationId })
+      ),
+    })
+  );
+  await acknowledgeExpiry(userId);
+}
+
+async function remind(customer: DunningCustomer, now: number): Promise<void> {
+  const { userId, stripeCustomerId, dunning } = customer;
+  const daysSinceFailure = (now - dunning.firstFailedAt) / DAY_SECONDS;
+  const remindersDue = reminderDays().filter((day) => day <= daysSinceFailure).length;
+
+  // At most one reminder per run; a missed one goes out on the next run
+  if (remindersDue <= dunning.remindersSent) {
+    return;
+  }
+
+  // Recorded after publishing, so a failed publish is retried on the next run
+  logger.info("Sending dunning reminder", { userId, reminder: dunning.remindersSent + 1 });
+  await publishEvent("dunning.reminder", {
+    userId,
+    stripeCustomerId,
+    reminder: dunning.remindersSent + 1,
+    failureCount: dunning.failureCount,
+    graceEndsAt: dunning.graceEndsAt,
+    invoiceId: dunning.lastInvoiceId,
+  });
+  if (!(await recordReminder(userId, dunning.remindersSent))) {
+    logger.warn("Dunning state changed while sending the reminder", { userId });
+  }
+}
+
+export const handler: ScheduledHandler = async (_event, context) => {
+  resetLogContext({ requestId: context.awsRequestId, correlationId: context.awsRequestId });
+  const now = Math.floor(Date.now() / 1000);
+  const customers = [...(await listCustomers("grace")), ...(await listCustomers("expired"))];
+  logger.info("Customers in dunning", { count: customers.length });
+
+  let failures = 0;
+  for (const customer of customers) {
+    resetLogContext({
+      requestId: context.awsRequestId,
+      correlationId: context.awsRequestId,
+      userId: customer.userId,
+      stripeCustomerId: customer.stripeCustomerId,
+    });
+    try {
+      if (customer.dunning.status === "expired" || now >= customer.dunning.graceEndsAt) {
+        await expire(customer);
+      } else {
+        await remind(customer, now);
+      }
+    } catch (error) {
+      // Keep going; whatever was not recorded as done is retried on the next run
+      failures++;
+      logger.error("Failed to process dunning for user", { userId: customer.userId, error });
+    }
+  }
+
+  if (failures > 0) {
+    throw new Error(`Dunning run failed for ${failures} customer(s)`);
+  }
+};
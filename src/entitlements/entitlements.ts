@@ -0,0 +1,99 @@
+// entitlements.ts
+// Maps what a customer pays for (Stripe prices/products) to named features and limits.
+// Sync resolves entitlements and stores them on the customer record; clients read
+// them from GET /subscription/entitlements instead of hard-coding price IDs.
+import type { Stripe } from 'stripe';
+
+export type Entitlements = {
+  features: string[];
+  limits: Record<string, number>;
+};
+
+// A rule matches a price ID or a product ID
+export type EntitlementRule = Entitlements & {
+  priceId?: string;
+  productId?: string;
+};
+
+// Passed to the sync function as JSON in the ENTITLEMENTS_CONFIG environment variable
+export type EntitlementConfig = {
+  rules: EntitlementRule[];
+};
+
+// Something the customer holds access through: a subscription item or a one-time purchase
+export type EntitlementSource = {
+  priceId: string;
+  productId: string;
+};
+
+// Product metadata can grant entitlements without a deploy:
+//   features = "reports,exports"
+//   limit.projects = "25"
+const FEATURES_METADATA_KEY = 'features';
+const LIMIT_METADATA_PREFIX = 'limit.';
+
+export const noEntitlements: Entitlements = { features: [], limits: {} };
+
+export function hasEntitlements(entitlements: Entitlements): boolean {
+  return entitlements.features.length > 0 || Object.keys(entitlements.limits).length > 0;
+}
+
+export function parseEntitlementConfig(raw: string | undefined): EntitlementConfig {
+  return raw ? (JSON.parse(raw) as EntitlementConfig) : { rules: [] };
+}
+
+export function entitlementsFromMetadata(metadata: Stripe.Metadata): Entitlements {
+  const features = (metadata[FEATURES_METADATA_KEY] ?? '')
+    .split(',')
+    .map((feature) => feature.trim())
+    .filter(Boolean);
+
+  const limits: Record<string, number> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (!key.startsWith(LIMIT_METADATA_PREFIX)) continue;
+    const limit = Number(value);
+    if (Number.isFinite(limit)) {
+      limits[key.slice(LIMIT_METADATA_PREFIX.length)] = limit;
+    }
+  }
+
+  return { features, limits };
+}
+
+// Features are unioned; for each limit the most generous value wins
+export function mergeEntitlements(grants: Entitlements[]): Entitlements {
+  const features = new Set<string>();
+  const limits: Record<string, number> = {};
+
+  for (const grant of grants) {
+    grant.features.forEach((feature) => features.add(feature));
+    for (const [name, value] of Object.entries(grant.limits)) {
+      limits[name] = Math.max(limits[name] ?? value, value);
+    }
+  }
+
+  return { features: [...features].sort(), limits };
+}
+
+export function resolveEntitlements(
+  config: EntitlementConfig,
+  sources: EntitlementSource[],
+  productMetadata: Record<string, Stripe.Metadata>
+): Entitlements {
+  const grants: Entitlements[] = [];
+
+  for (const source of sources) {
+    for (const rule of config.rules) {
+      if (rule.priceId === source.priceId || rule.productId === source.productId) {
+        grants.push(rule);
+      }
+    }
+
+    const metadata = productMetadata[source.productId];
+    if (metadata) {
+      grants.push(entitlementsFromMetadata(metadata));
+    }
+  }
+
+  return mergeEntitlements(grants);
+}
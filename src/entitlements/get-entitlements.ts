@@ -0,0 +1,71 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { APIGatewayEventRequestContextWithAuthorizer } from "aws-lambda";
+import { Entitlements, noEntitlements } from "./entitlements";
+import { getCustomer } from "../shared/customer-repository";
+import { corsHeaders } from "../shared/cors";
+import { addLogContext, logger, resetLogContext } from "../shared/logger";
+
+interface CognitoAuthorizerEvent extends APIGatewayProxyEvent {
+  requestContext: APIGatewayEventRequestContextWithAuthorizer<{
+    claims: {
+      sub: string; // Cognito user sub
+    };
+  }>;
+}
+
+export const handler = async (
+  event: CognitoAuthorizerEvent
+): Promise<APIGatewayProxyResult> => {
+  resetLogContext({
+    requestId: event.requestContext.requestId,
+    correlationId: event.requestContext.requestId,
+  });
+  logger.info("Starting get-entitlements handler");
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...corsHeaders(event),
+  };
+
+  try {
+    const cognitoSub = event.requestContext.authorizer?.claims?.sub;
+    addLogContext({ userId: cognitoSub });
+
+    if (!cognitoSub) {
+      logger.warn("No Cognito sub found in request");
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: "Unauthorized - No user ID found",
+        }),
+      };
+    }
+
+    logger.info("Fetching customer from DynamoDB");
+    const customer = await getCustomer(cognitoSub);
+
+    // Users who never subscribed simply have no entitlements
+    const entitlements: Entitlements = customer?.entitlements ?? noEntitlements;
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        ...entitlements,
+        accessGranted: customer?.accessGranted ?? false,
+        status: customer?.status ?? "none",
+        updatedAt: customer?.updatedAt ?? null,
+      }),
+    };
+  } catch (error) {
+    logger.error("Error in get-entitlements handler", { error });
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: "Failed to load entitlements",
+      }),
+    };
+  }
+};
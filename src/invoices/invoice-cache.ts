@@ -0,0 +1,86 @@
+// invoice-cache.ts
+// Per-user copy of Stripe invoices, kept up to date by the webhook so receipts can
+// be listed without opening the billing portal or calling Stripe from the frontend.
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import type Stripe from "stripe";
+import { dynamoClient } from "../shared/clients";
+
+export type InvoiceRecord = {
+  userId: string;
+  invoiceId: string;
+  stripeCustomerId: string;
+  subscriptionId: string | null;
+  number: string | null;
+  status: Stripe.Invoice.Status | null;
+  // Amounts are in the smallest currency unit
+  total: number;
+  amountDue: number;
+  amountPaid: number;
+  currency: string;
+  periodStart: number;
+  periodEnd: number;
+  created: number; // Sort key of created-index
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+  // Created time of the Stripe event this copy came from, used to ignore late deliveries
+  eventCreated: number;
+  updatedAt: string;
+};
+
+export function toInvoiceRecord(
+  invoice: Stripe.Invoice,
+  userId: string,
+  eventCreated: number
+): InvoiceRecord {
+  return {
+    userId,
+    invoiceId: invoice.id,
+    stripeCustomerId:
+      typeof invoice.customer === "string" ? invoice.customer : invoice.customer?.id ?? "",
+    subscriptionId:
+      typeof invoice.subscription === "string"
+        ? invoice.subscription
+        : invoice.subscription?.id ?? null,
+    number: invoice.number,
+    status: invoice.status,
+    total: invoice.total,
+    amountDue: invoice.amount_due,
+    amountPaid: invoice.amount_paid,
+    currency: invoice.currency,
+    periodStart: invoice.period_start,
+    periodEnd: invoice.period_end,
+    created: invoice.created,
+    hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+    invoicePdf: invoice.invoice_pdf ?? null,
+    eventCreated,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Stores an invoice unless a copy from a newer event is already cached, so a
+ * late payment_failed delivery cannot overwrite a paid invoice.
+ * Returns false if the write was skipped.
+ */
+export async function cacheInvoice(record: InvoiceRecord): Promise<boolean> {
+  try {
+    await dynamoClient().send(
+      new PutCommand({
+        TableName: process.env.INVOICES_TABLE!,
+        Item: record,
+        ConditionExpression:
+          "attribute_not_exists(invoiceId) OR eventCreated <= :eventCreated",
+        ExpressionAttributeValues: {
+          ":eventCreated": record.eventCreated,
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+}
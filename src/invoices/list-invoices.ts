@@ -0,0 +1,138 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { APIGatewayEventRequestContextWithAuthorizer } from "aws-lambda";
+import { InvoiceRecord } from "./invoice-cache";
+import { dynamoClient } from "../shared/clients";
+import { corsHeaders } from "../shared/cors";
+import { addLogContext, logger, resetLogContext } from "../shared/logger";
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+interface CognitoAuthorizerEvent extends APIGatewayProxyEvent {
+  requestContext: APIGatewayEventRequestContextWithAuthorizer<{
+    claims: {
+      sub: string; // Cognito user sub
+    };
+  }>;
+}
+
+// The cursor is the opaque, base64url-encoded LastEvaluatedKey of the previous page
+const encodeCursor = (key: Record<string, unknown>) =>
+  Buffer.from(JSON.stringify(key)).toString("base64url");
+
+function decodeCursor(
+  cursor: string,
+  userId: string
+): Record<string, unknown> | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    // A cursor can only continue a listing of the caller's own invoices
+    return key?.userId === userId ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+export const handler = async (
+  event: CognitoAuthorizerEvent
+): Promise<APIGatewayProxyResult> => {
+  resetLogContext({
+    requestId: event.requestContext.requestId,
+    correlationId: event.requestContext.requestId,
+  });
+  logger.info("Starting list-invoices handler");
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...corsHeaders(event),
+  };
+
+  try {
+    const cognitoSub = event.requestContext.authorizer?.claims?.sub;
+    addLogContext({ userId: cognitoSub });
+
+    if (!cognitoSub) {
+      logger.warn("No Cognito sub found in request");
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify({
+          error: "Unauthorized - No user ID found",
+        }),
+      };
+    }
+
+    const params = event.queryStringParameters ?? {};
+    const limit = params.limit ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({
+          error: `limit must be a whole number between 1 and ${MAX_PAGE_SIZE}`,
+        }),
+      };
+    }
+
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    if (params.cursor) {
+      const key = decodeCursor(params.cursor, cognitoSub);
+      if (!key) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: "Invalid cursor" }),
+        };
+      }
+      exclusiveStartKey = key;
+    }
+
+    logger.info("Querying invoices", { limit });
+    // Newest first
+    const { Items, LastEvaluatedKey } = await dynamoClient().send(
+      new QueryCommand({
+        TableName: process.env.INVOICES_TABLE!,
+        IndexName: "created-index",
+        KeyConditionExpression: "userId = :userId",
+        ExpressionAttributeValues: { ":userId": cognitoSub },
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    const invoices = ((Items ?? []) as InvoiceRecord[]).map((invoice) => ({
+      id: invoice.invoiceId,
+      number: invoice.number,
+      status: invoice.status,
+      total: invoice.total,
+      amountDue: invoice.amountDue,
+      amountPaid: invoice.amountPaid,
+      currency: invoice.currency,
+      periodStart: invoice.periodStart,
+      periodEnd: invoice.periodEnd,
+      created: invoice.created,
+      hostedInvoiceUrl: invoice.hostedInvoiceUrl,
+      invoicePdf: invoice.invoicePdf,
+    }));
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        invoices,
+        nextCursor: LastEvaluatedKey ? encodeCursor(LastEvaluatedKey) : null,
+      }),
+    };
+  } catch (error) {
+    logger.error("Error in list-invoices handler", { error });
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: "Failed to list invoices",
+      }),
+    };
+  }
+};
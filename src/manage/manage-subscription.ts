@@ -1,19 +1,20 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import Stripe from "stripe";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import {
-  DynamoDBDocumentClient,
-  GetCommand,
-  GetCommandInput,
-} from "@aws-sdk/lib-dynamodb";
 import { APIGatewayEventRequestContextWithAuthorizer } from "aws-lambda";
+import { parsePriceCatalog } from "../checkout/price-catalog";
+import { loadStripeClient } from "../shared/clients";
+import { corsHeaders } from "../shared/cors";
+import { getCustomer } from "../shared/customer-repository";
+import { addLogContext, logger, resetLogContext } from "../shared/logger";
+import { putMetric } from "../shared/metrics";
+import {
+  buildFlowData,
+  createPortalSession,
+  PORTAL_RETURN_PATHS,
+  PortalRequest,
+  resolveReturnUrl,
+} from "./portal-flows";
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
-
-// Initialize DynamoDB clients
-const ddbClient = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(ddbClient);
-
+const PRICE_CATALOG = parsePriceCatalog(process.env.PRICE_CATALOG);
 
 interface CognitoAuthorizerEvent extends APIGatewayProxyEvent {
   requestContext: APIGatewayEventRequestContextWithAuthorizer<{
@@ -26,86 +27,115 @@ interface CognitoAuthorizerEvent extends APIGatewayProxyEvent {
 export const handler = async (
   event: CognitoAuthorizerEvent
 ): Promise<APIGatewayProxyResult> => {
-  console.log('Starting manage-subscription handler', { 
-    requestId: event.requestContext.requestId 
+  resetLogContext({
+    requestId: event.requestContext.requestId,
+    correlationId: event.requestContext.requestId,
   });
+  logger.info('Starting manage-subscription handler');
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...corsHeaders(event),
+  };
 
   try {
+    await loadStripeClient();
+
     const cognitoSub = event.requestContext.authorizer.claims.sub;
-    console.log('Retrieved Cognito sub', { cognitoSub });
+    addLogContext({ userId: cognitoSub });
 
     if (!cognitoSub) {
-      console.warn('No Cognito sub found in request');
+      logger.warn('No Cognito sub found in request');
       return {
         statusCode: 401,
-        headers: {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*",
-        },
+        headers,
         body: JSON.stringify({
           error: "Unauthorized - No user ID found",
         }),
       };
     }
 
-    // Look up the Stripe customer ID from DynamoDB
-    const getCustomerCommand: GetCommandInput = {
-      TableName: process.env.CUSTOMER_TABLE!,
-      Key: {
-        userId: cognitoSub,
-      },
-    };
+    let request: PortalRequest;
+    try {
+      request = event.body ? JSON.parse(event.body) : {};
+    } catch {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Request body must be valid JSON" }),
+      };
+    }
+    if (typeof request !== "object" || request === null) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Request body must be a JSON object" }),
+      };
+    }
+
+    const returnUrl = resolveReturnUrl(request.returnPath, PORTAL_RETURN_PATHS, process.env.APP_URL!);
+    if (!returnUrl.ok) {
+      return {
+        statusCode: returnUrl.statusCode,
+        headers,
+        body: JSON.stringify({ error: returnUrl.error }),
+      };
+    }
 
-    console.log('Fetching customer from DynamoDB', { cognitoSub });
-    const customerResult = await docClient.send(new GetCommand(getCustomerCommand));
+    // Look up the Stripe customer ID from DynamoDB
+    logger.info('Fetching customer from DynamoDB');
+    const customer = await getCustomer(cognitoSub);
 
-    if (!customerResult.Item?.stripeCustomerId) {
-      console.warn('No Stripe customer found', { cognitoSub });
+    if (!customer?.stripeCustomerId) {
+      logger.warn('No Stripe customer found');
       return {
         statusCode: 404,
-        headers: {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*",
-        },
+        headers,
         body: JSON.stringify({
           error: "No Stripe customer found for this user",
         }),
       };
     }
 
-    console.log('Found Stripe customer', { 
-      stripeCustomerId: customerResult.Item.stripeCustomerId 
-    });
+    addLogContext({ stripeCustomerId: customer.stripeCustomerId });
+    logger.info('Found Stripe customer');
+
+    const flowData = await buildFlowData(PRICE_CATALOG, customer, request, returnUrl.value);
+    if (!flowData.ok) {
+      logger.info('Rejected portal flow', { flow: request.flow, error: flowData.error });
+      return {
+        statusCode: flowData.statusCode,
+        headers,
+        body: JSON.stringify({ error: flowData.error }),
+      };
+    }
 
     // Create a billing portal session with the found Stripe customer ID
-    console.log('Creating billing portal session');
-    const session = await stripe.billingPortal.sessions.create({
-      customer: customerResult.Item.stripeCustomerId,
-      return_url: process.env.APP_URL + '/settings',
-    });
+    logger.info('Creating billing portal session', { flow: flowData.value?.type ?? null });
+    const session = await createPortalSession(
+      customer.stripeCustomerId,
+      returnUrl.value,
+      flowData.value
+    );
 
-    console.log('Successfully created billing portal session', { 
+    logger.info('Successfully created billing portal session', { 
       sessionId: session.id 
     });
+    putMetric('PortalSessionCreated', 1, { flow: flowData.value?.type ?? null });
 
     return {
       statusCode: 200,
-      headers: {
-        "Content-Type": "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
+      headers,
       body: JSON.stringify({
         url: session.url,
       }),
     };
   } catch (error) {
-    console.error('Error in manage-subscription handler:', error);
+    logger.error('Error in manage-subscription handler', { error });
+    putMetric('PortalSessionFailed');
     return {
       statusCode: 500,
-      headers: {
-        "Content-Type": "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
+      headers,
       body: JSON.stringify({
         error: "Failed to create billing portal session",
       }),
@@ -0,0 +1,142 @@
+// portal-flows.ts
+// Deep links into the billing portal. Instead of the portal's home page the
+// customer can land directly on one flow (flow_data), and is sent back to one
+// of the app's allowed return paths (PORTAL_RETURN_PATHS) when it is done.
+import Stripe from "stripe";
+import type { CheckoutRequest, PriceCatalog } from "../checkout/price-catalog";
+import { stripeClient } from "../shared/clients";
+import type { CustomerRecord } from "../shared/customer-repository";
+import { currentSubscription } from "../subscription/current-subscription";
+import { resolvePlanChange } from "../subscription/plan-changes";
+
+// Paths in the app the portal may return to; the first is the default
+export const PORTAL_RETURN_PATHS = (process.env.PORTAL_RETURN_PATHS || "/settings").split(",");
+
+export type PortalFlow =
+  | "payment_method_update"
+  | "subscription_cancel"
+  | "subscription_update_confirm";
+
+const portalFlows: PortalFlow[] = [
+  "payment_method_update",
+  "subscription_cancel",
+  "subscription_update_confirm",
+];
+
+// subscription_update_confirm takes the target plan like checkout does
+export type PortalRequest = Omit<CheckoutRequest, "promotionCode"> & {
+  flow?: unknown;
+  returnPath?: unknown;
+};
+
+export type PortalResolution<T> =
+  | { ok: true; value: T }
+  | { ok: false; statusCode: number; error: string };
+
+const invalid = (statusCode: number, error: string): PortalResolution<never> => ({
+  ok: false,
+  statusCode,
+  error,
+});
+
+/**
+ * The first allowed path is the default. Paths are matched exactly, so a
+ * client can't send the customer anywhere else after the portal.
+ */
+export function resolveReturnUrl(
+  returnPath: unknown,
+  allowedPaths: string[],
+  appUrl: string
+): PortalResolution<string> {
+  const path = returnPath ?? allowedPaths[0];
+  if (typeof path !== "string" || !allowedPaths.includes(path)) {
+    return invalid(400, `returnPath must be one of: ${allowedPaths.join(", ")}`);
+  }
+  return { ok: true, value: appUrl + path };
+}
+
+/**
+ * Undefined flow_data (no flow requested) opens the portal's home page.
+ */
+export async function buildFlowData(
+  catalog: PriceCatalog,
+  customer: CustomerRecord,
+  request: PortalRequest,
+  returnUrl: string
+): Promise<PortalResolution<Stripe.BillingPortal.SessionCreateParams.FlowData | undefined>> {
+  const { flow } = request;
+  if (flow === undefined) {
+    return { ok: true, value: undefined };
+  }
+  if (!portalFlows.includes(flow as PortalFlow)) {
+    return invalid(400, `flow must be one of: ${portalFlows.join(", ")}`);
+  }
+
+  const afterCompletion: Stripe.BillingPortal.SessionCreateParams.FlowData.AfterCompletion = {
+    type: "redirect",
+    redirect: { return_url: returnUrl },
+  };
+
+  if (flow === "payment_method_update") {
+    return { ok: true, value: { type: flow, after_completion: afterCompletion } };
+  }
+
+  if (flow === "subscription_cancel") {
+    const subscription = await currentSubscription(customer);
+    if (!subscription) {
+      return invalid(409, "No active subscription to cancel");
+    }
+    if (subscription.cancel_at_period_end) {
+      return invalid(409, "The subscription is already canceled");
+    }
+    return {
+      ok: true,
+      value: {
+        type: flow,
+        subscription_cancel: { subscription: subscription.id },
+        after_completion: afterCompletion,
+      },
+    };
+  }
+
+  // The portal shows the proration and confirms the switch to the chosen price
+  const resolution = await resolvePlanChange(catalog, customer, {
+    plan: request.plan,
+    interval: request.interval,
+    quantity: request.quantity,
+  });
+  if (!resolution.ok) {
+    return resolution;
+  }
+  const change = resolution.value;
+  return {
+    ok: true,
+    value: {
+      type: "subscription_update_confirm",
+      subscription_update_confirm: {
+        subscription: change.subscription.id,
+        items: [{ id: change.item.id, price: change.price.id, quantity: change.quantity }],
+      },
+      after_completion: afterCompletion,
+    },
+  };
+}
+
+/**
+ * Every link into the portal is created here, so all of them use the
+ * configuration from scripts/billing-portal.ts once it is set.
+ */
+export async function createPortalSession(
+  stripeCustomerId: string,
+  returnUrl: string,
+  flowData?: Stripe.BillingPortal.SessionCreateParams.FlowData
+): Promise<Stripe.BillingPortal.Session> {
+  const configuration = process.env.STRIPE_PORTAL_CONFIGURATION_ID;
+  return stripeClient().billingPortal.sessions.create({
+    customer: stripeCustomerId,
+    return_url: returnUrl,
+    // Empty until scripts/billing-portal.ts has created the configuration
+    ...(configuration && { configuration }),
+    ...(flowData && { flow_data: flowData }),
+  });
+}
@@ -0,0 +1,123 @@
+// drift.ts
+// Compares what Stripe says about a customer with what the customer table says,
+// for the reconciliation job (src/reconcile/reconcile-stripe-data.ts).
+import type Stripe from "stripe";
+import { buildSubscriptionData } from "../sync/subscription-data";
+
+export type DriftType =
+  | "missing_record" // Stripe customer whose metadata.userId has no table record
+  | "orphaned_customer" // Stripe customer no table record points to
+  | "duplicate_mapping" // Several table records point to the same Stripe customer
+  | "unknown_customer" // Table record points to a Stripe customer that does not exist
+  | "status_mismatch" // Effective subscription or status differs
+  | "period_mismatch"; // Same subscription, but period end or cancellation differs
+
+export type Drift = {
+  type: DriftType;
+  stripeCustomerId: string | null;
+  userId: string | null;
+  details?: Record<string, unknown>;
+};
+
+// Only status and period mismatches can be fixed by resyncing the customer;
+// the rest needs a person to decide which side is right
+export const repairableDrift: DriftType[] = ["status_mismatch", "period_mismatch"];
+
+// The projection of stripeCustomerId-index the comparison needs
+export type CustomerRecordSummary = {
+  userId: string;
+  stripeCustomerId: string;
+  subscriptionId?: string | null;
+  status?: string;
+  currentPeriodEnd?: number | null;
+  cancelAtPeriodEnd?: boolean;
+  syncVersion?: number;
+};
+
+/**
+ * Finds the drift for one Stripe customer. `records` are the table records
+ * mapped to the customer through stripeCustomerId-index.
+ */
+export function findCustomerDrift(
+  customer: Stripe.Customer,
+  subscriptions: Stripe.Subscription[],
+  records: CustomerRecordSummary[]
+): Drift[] {
+  const metadataUserId = customer.metadata?.userId ?? null;
+
+  if (records.length === 0) {
+    return [
+      {
+        type: "orphaned_customer",
+        stripeCustomerId: customer.id,
+        userId: metadataUserId,
+        details: {
+          email: customer.email,
+          subscriptions: subscriptions.length,
+        },
+      },
+    ];
+  }
+
+  if (records.length > 1) {
+    return [
+      {
+        type: "duplicate_mapping",
+        stripeCustomerId: customer.id,
+        userId: metadataUserId,
+        details: { userIds: records.map((record) => record.userId) },
+      },
+    ];
+  }
+
+  const [record] = records;
+  const expected = buildSubscriptionData(subscriptions);
+  const stored = {
+    subscriptionId: record.subscriptionId ?? null,
+    status: record.status ?? "none",
+    currentPeriodEnd: record.currentPeriodEnd ?? null,
+    cancelAtPeriodEnd: record.cancelAtPeriodEnd ?? false,
+  };
+
+  if (
+    stored.subscriptionId !== expected.subscriptionId ||
+    stored.status !== expected.status
+  ) {
+    return [
+      {
+        type: "status_mismatch",
+        stripeCustomerId: customer.id,
+        userId: record.userId,
+        details: {
+          stored: { subscriptionId: stored.subscriptionId, status: stored.status },
+          stripe: { subscriptionId: expected.subscriptionId, status: expected.status },
+        },
+      },
+    ];
+  }
+
+  if (
+    stored.currentPeriodEnd !== expected.currentPeriodEnd ||
+    stored.cancelAtPeriodEnd !== expected.cancelAtPeriodEnd
+  ) {
+    return [
+      {
+        type: "period_mismatch",
+        stripeCustomerId: customer.id,
+        userId: record.userId,
+        details: {
+          stored: {
+            currentPeriodEnd: stored.currentPeriodEnd,
+            cancelAtPeriodEnd: stored.cancelAtPeriodEnd,
+          },
+          stripe: {
+            currentPeriodEnd: expected.currentPeriodEnd,
+            cancelAtPeriodEnd: expected.cancelAtPeriodEnd,
+          },
+        },
+      },
+    ];
+  }
+
+  return [];
+}
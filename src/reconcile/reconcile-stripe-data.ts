@@ -0,0 +1,236 @@
+// reconcile-stripe-data.ts
+// Runs on a schedule. Pages through every Stripe customer and subscription,
+// compares them with the customer table (through stripeCustomerId-index) and
+// reports drift left behind by missed webhooks. In repair mode, customers whose
+// subscription data drifted are resynced through the sync function.
+import {
+  GetCommand,
+  ScanCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { InvokeCommand } from "@aws-sdk/client-lambda";
+import type { Handler } from "aws-lambda";
+import Stripe from "stripe";
+import { publishEvent } from "../shared/event-bus";
+import {
+  CustomerRecordSummary,
+  Drift,
+  DriftType,
+  findCustomerDrift,
+  repairableDrift,
+} from "./drift";
+import { dynamoClient, lambdaClient, loadStripeClient, stripeClient } from "../shared/clients";
+import { getLogContext, logger, resetLogContext } from "../shared/logger";
+
+// Keeps the published event well under the EventBridge entry size limit;
+// the full list is in the logs and the invocation result
+const MAX_PUBLISHED_DRIFT = 50;
+
+type ReconcileEvent = {
+  // Without repair the job only reports
+  repair?: boolean;
+};
+
+type RepairedDrift = Drift & {
+  repaired?: boolean;
+  repairError?: string;
+};
+
+type ReconciliationReport = {
+  repair: boolean;
+  startedAt: string;
+  finishedAt: string;
+  customersChecked: number;
+  recordsChecked: number;
+  // Records synced after the run started are newer than what we read from Stripe
+  recordsSkipped: number;
+  counts: Partial<Record<DriftType, number>>;
+  repaired: number;
+  repairFailures: number;
+  drift: RepairedDrift[];
+};
+
+// Every record that has a Stripe customer, grouped by customer ID
+async function loadCustomerMapping(): Promise<Map<string, CustomerRecordSummary[]>> {
+  const mapping = new Map<string, CustomerRecordSummary[]>();
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { Items, LastEvaluatedKey } = await dynamoClient().send(
+      new ScanCommand({
+        TableName: process.env.CUSTOMER_TABLE!,
+        IndexName: "stripeCustomerId-index",
+        ProjectionExpression:
+          "userId, stripeCustomerId, subscriptionId, #status, currentPeriodEnd, cancelAtPeriodEnd, syncVersion",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    for (const item of (Items ?? []) as CustomerRecordSummary[]) {
+      const records = mapping.get(item.stripeCustomerId) ?? [];
+      records.push(item);
+      mapping.set(item.stripeCustomerId, records);
+    }
+    exclusiveStartKey = LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return mapping;
+}
+
+async function loadSubscriptionsByCustomer(): Promise<Map<string, Stripe.Subscription[]>> {
+  const byCustomer = new Map<string, Stripe.Subscription[]>();
+
+  for await (const subscription of stripeClient().subscriptions.list({ status: "all", limit: 100 })) {
+    const customerId =
+      typeof subscription.customer === "string"
+        ? subscription.customer
+        : subscription.customer.id;
+    const subscriptions = byCustomer.get(customerId) ?? [];
+    subscriptions.push(subscription);
+    byCustomer.set(customerId, subscriptions);
+  }
+
+  return byCustomer;
+}
+
+// A customer created by checkout carries the userId it was created for. If that
+// user has no record at all, the record is missing rather than the customer orphaned.
+async function classifyOrphan(drift: Drift): Promise<Drift> {
+  if (!drift.userId) {
+    return drift;
+  }
+  const { Item } = await dynamoClient().send(
+    new GetCommand({
+      TableName: process.env.CUSTOMER_TABLE!,
+      Key: { userId: drift.userId },
+      ProjectionExpression: "userId, stripeCustomerId",
+    })
+  );
+  if (Item) {
+    return {
+      ...drift,
+      details: { ...drift.details, recordStripeCustomerId: Item.stripeCustomerId ?? null },
+    };
+  }
+  return { ...drift, type: "missing_record" };
+}
+
+// Resyncs the customer through the sync function, waiting for the outcome
+async function repair(drift: Drift): Promise<RepairedDrift> {
+  try {
+    const { Payload, FunctionError } = await lambdaClient().send(
+      new InvokeCommand({
+        FunctionName: process.env.STRIPE_SYNC_FUNCTION_NAME!,
+        InvocationType: "RequestResponse",
+        Payload: Buffer.from(
+          JSON.stringify({
+            stripeCustomerId: drift.stripeCustomerId,
+            correlationId: getLogContext().correlationId,
+          })
+        ),
+      })
+    );
+    const result = Payload ? JSON.parse(Buffer.from(Payload).toString()) : null;
+    if (FunctionError || result?.statusCode !== 200) {
+      return { ...drift, repaired: false, repairError: result?.error ?? FunctionError };
+    }
+    return { ...drift, repaired: true };
+  } catch (error) {
+    return {
+      ...drift,
+      repaired: false,
+      repairError: error instanceof Error ? error.message : "Failed to invoke sync",
+    };
+  }
+}
+
+export const handler: Handler<ReconcileEvent, ReconciliationReport> = async (event, context) => {
+  resetLogContext({ requestId: context.awsRequestId, correlationId: context.awsRequestId });
+  await loadStripeClient();
+  const repairMode = event?.repair === true;
+  const startedAt = new Date();
+  logger.info("Starting reconciliation", { repair: repairMode });
+
+  const subscriptionsByCustomer = await loadSubscriptionsByCustomer();
+  const mapping = await loadCustomerMapping();
+  logger.info("Loaded subscriptions and table records", {
+    customersWithSubscriptions: subscriptionsByCustomer.size,
+    mappedCustomers: mapping.size,
+  });
+
+  const drift: RepairedDrift[] = [];
+  const seenCustomerIds = new Set<string>();
+  let customersChecked = 0;
+  let recordsChecked = 0;
+  let recordsSkipped = 0;
+
+  for await (const customer of stripeClient().customers.list({ limit: 100 })) {
+    customersChecked++;
+    seenCustomerIds.add(customer.id);
+
+    const records = mapping.get(customer.id) ?? [];
+    recordsChecked += records.length;
+    if (records.some((record) => (record.syncVersion ?? 0) >= startedAt.getTime())) {
+      recordsSkipped++;
+      continue;
+    }
+
+    for (const found of findCustomerDrift(
+      customer,
+      subscriptionsByCustomer.get(customer.id) ?? [],
+      records
+    )) {
+      const classified =
+        found.type === "orphaned_customer" ? await classifyOrphan(found) : found;
+      logger.info("Drift found", { drift: classified });
+      drift.push(
+        repairMode && repairableDrift.includes(classified.type)
+          ? await repair(classified)
+          : classified
+      );
+    }
+  }
+
+  // Deleted customers are not listed, so anything left in the mapping points nowhere
+  for (const [stripeCustomerId, records] of mapping) {
+    if (seenCustomerIds.has(stripeCustomerId)) {
+      continue;
+    }
+    recordsChecked += records.length;
+    for (const record of records) {
+      const found: Drift = {
+        type: "unknown_customer",
+        stripeCustomerId,
+        userId: record.userId,
+        details: { status: record.status ?? "none" },
+      };
+      logger.info("Drift found", { drift: found });
+      drift.push(found);
+    }
+  }
+
+  const counts: Partial<Record<DriftType, number>> = {};
+  for (const { type } of drift) {
+    counts[type] = (counts[type] ?? 0) + 1;
+  }
+
+  const summary: Omit<ReconciliationReport, "drift"> = {
+    repair: repairMode,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    customersChecked,
+    recordsChecked,
+    recordsSkipped,
+    counts,
+    repaired: drift.filter((entry) => entry.repaired === true).length,
+    repairFailures: drift.filter((entry) => entry.repaired === false).length,
+  };
+
+  logger.info("Reconciliation finished", { ...summary });
+  await publishEvent("reconciliation.completed", {
+    ...summary,
+    drift: drift.slice(0, MAX_PUBLISHED_DRIFT),
+    driftTruncated: drift.length > MAX_PUBLISHED_DRIFT,
+  });
+
+  return { ...summary, drift };
+};
@@ -0,0 +1,66 @@
+// clients.ts
+// The AWS and Stripe clients every function uses. Each is created on first use
+// and then reused for the lifetime of the container. setClients() replaces them,
+// e.g. with the in-memory fakes the tests use (see test/fakes/).
+// The Stripe client needs its key from Secrets Manager, so handlers that use it
+// call loadStripeClient() before anything else.
+import { CognitoIdentityProviderClient } from "@aws-sdk/client-cognito-identity-provider";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { EventBridgeClient } from "@aws-sdk/client-eventbridge";
+import { LambdaClient } from "@aws-sdk/client-lambda";
+import { SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import { SQSClient } from "@aws-sdk/client-sqs";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import type Stripe from "stripe";
+import { getStripeSecretKey } from "./secrets";
+import { createStripeClient } from "./stripe-client";
+
+// Only `send` is used on the AWS clients, which keeps them easy to fake
+export type Clients = {
+  stripe: Stripe;
+  dynamo: Pick<DynamoDBDocumentClient, "send">;
+  cognito: Pick<CognitoIdentityProviderClient, "send">;
+  eventBridge: Pick<EventBridgeClient, "send">;
+  sqs: Pick<SQSClient, "send">;
+  lambda: Pick<LambdaClient, "send">;
+  secretsManager: Pick<SecretsManagerClient, "send">;
+};
+
+const factories: { [K in keyof Clients]: () => Clients[K] } = {
+  stripe: () => {
+    throw new Error("Stripe client used before loadStripeClient()");
+  },
+  dynamo: () => DynamoDBDocumentClient.from(new DynamoDBClient({})),
+  cognito: () => new CognitoIdentityProviderClient({}),
+  eventBridge: () => new EventBridgeClient({}),
+  sqs: () => new SQSClient({}),
+  lambda: () => new LambdaClient({}),
+  secretsManager: () => new SecretsManagerClient({}),
+};
+
+let clients: Partial<Clients> = {};
+
+function get<K extends keyof Clients>(name: K): Clients[K] {
+  return (clients[name] ??= factories[name]());
+}
+
+export const stripeClient = () => get("stripe");
+export const dynamoClient = () => get("dynamo");
+export const cognitoClient = () => get("cognito");
+export const eventBridgeClient = () => get("eventBridge");
+export const sqsClient = () => get("sqs");
+export const lambdaClient = () => get("lambda");
+export const secretsManagerClient = () => get("secretsManager");
+
+export async function loadStripeClient(): Promise<Stripe> {
+  clients.stripe ??= createStripeClient(await getStripeSecretKey());
+  return clients.stripe;
+}
+
+/**
+ * Replaces the clients. Anything not passed is created again on next use,
+ * so setClients({}) goes back to the real clients.
+ */
+export function setClients(overrides: Partial<Clients>): void {
+  clients = { ...overrides };
+}
@@ -0,0 +1,23 @@
+// cors.ts
+// CORS headers for API responses. CORS_ALLOWED_ORIGINS lists the stage's browser
+// origins (corsSettings in lib/stripe-stack.ts). A response can name only one
+// origin, so the request's Origin is echoed when it is allowed.
+import type { APIGatewayProxyEvent } from "aws-lambda";
+
+function allowedOrigins(): string[] {
+  const origins = (process.env.CORS_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  return origins.length > 0 ? origins : [process.env.APP_URL ?? ""];
+}
+
+export function corsHeaders(event: Pick<APIGatewayProxyEvent, "headers">): Record<string, string> {
+  const origins = allowedOrigins();
+  const origin = event.headers?.origin ?? event.headers?.Origin;
+  return {
+    "Access-Control-Allow-Origin": origin && origins.includes(origin) ? origin : origins[0],
+    "Access-Control-Allow-Credentials": "true",
+    Vary: "Origin",
+  };
+}
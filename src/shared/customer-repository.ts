@@ -0,0 +1,139 @@
+// customer-repository.ts
+// The customer table, keyed by Cognito userId with a stripeCustomerId-index.
+// Checkout creates the record, sync owns the subscription fields and the
+// dunning module owns the dunning* attributes (see src/dunning/dunning-state.ts).
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { GetCommand, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import type { OpenCheckoutSession } from "../checkout/checkout-sessions";
+import type { CancellationSurvey } from "../subscription/subscription-actions";
+import type { Entitlements } from "../entitlements/entitlements";
+import type { EffectiveSubscriptionData } from "../sync/subscription-data";
+import type { SubscriptionSnapshot } from "../sync/subscription-events";
+import type { DunningStatus } from "../dunning/dunning-state";
+import { dynamoClient } from "./clients";
+import { updateFields, UpdateOptions, UpdateResult } from "./dynamo-update";
+
+export type CustomerIdentity = {
+  userId: string; // Cognito sub
+  stripeCustomerId: string;
+  email: string;
+  createdAt: string;
+  // Set on records created by scripts/import-stripe-customers.ts
+  importedAt?: string;
+};
+
+// Written by sync on every run
+export type SyncedCustomerFields = EffectiveSubscriptionData & {
+  accessGranted: boolean;
+  entitlements: Entitlements;
+  subscriptionCount: number;
+  syncVersion: number;
+  updatedAt: string;
+};
+
+export type DunningFields = {
+  dunningStatus: DunningStatus;
+  dunningFailureCount: number;
+  dunningFirstFailedAt: number;
+  dunningLastFailedAt: number;
+  dunningLastInvoiceId: string;
+  dunningGraceEndsAt: number;
+  dunningRemindersSent: number;
+  // Only present from expiry until its notification and resync went out
+  dunningExpiryPending: boolean;
+  // Kept when the others are cleared (src/dunning/dunning-state.ts)
+  dunningClearedAt: number;
+};
+
+// Sync and dunning fields are missing until the first sync or failed payment
+export type CustomerRecord = CustomerIdentity &
+  Partial<SyncedCustomerFields> &
+  Partial<DunningFields> & {
+    // Last sync the user triggered through the API (src/sync/sync-rate-limit.ts)
+    lastUserSyncAt?: number;
+    // Last Checkout Session created for the user (src/checkout/checkout-sessions.ts)
+    openCheckoutSession?: OpenCheckoutSession;
+    // Answers from the last in-app cancellation (src/subscription/subscription-actions.ts)
+    lastCancellation?: CancellationSurvey;
+    // Last trial_will_end event published for the user (src/sync/webhook-event-handlers.ts)
+    trialWillEndEventId?: string;
+    // State the last published subscription events describe (src/sync/subscription-events.ts)
+    publishedSnapshot?: SubscriptionSnapshot;
+  };
+
+// Fields a caller may change; the key and the bookkeeping attributes are set here
+export type CustomerUpdate = Partial<
+  Omit<CustomerRecord, "userId" | "syncVersion" | "updatedAt">
+>;
+
+const tableName = () => process.env.CUSTOMER_TABLE!;
+
+export async function getCustomer(userId: string): Promise<CustomerRecord | null> {
+  const { Item } = await dynamoClient().send(
+    new GetCommand({
+      TableName: tableName(),
+      Key: { userId },
+    })
+  );
+  return (Item as CustomerRecord | undefined) ?? null;
+}
+
+export async function findCustomerByStripeId(
+  stripeCustomerId: string
+): Promise<CustomerRecord | null> {
+  const { Items } = await dynamoClient().send(
+    new QueryCommand({
+      TableName: tableName(),
+      IndexName: "stripeCustomerId-index",
+      KeyConditionExpression: "stripeCustomerId = :stripeId",
+      ExpressionAttributeValues: {
+        ":stripeId": stripeCustomerId,
+      },
+    })
+  );
+  return (Items?.[0] as CustomerRecord | undefined) ?? null;
+}
+
+/**
+ * Stores a new customer record unless the user already has one, e.g. written by
+ * a parallel checkout. Returns whichever record is stored afterwards.
+ */
+export async function createCustomer(
+  customer: CustomerIdentity
+): Promise<{ created: boolean; customer: CustomerRecord }> {
+  try {
+    await dynamoClient().send(
+      new PutCommand({
+        TableName: tableName(),
+        Item: customer,
+        ConditionExpression: "attribute_not_exists(userId)",
+      })
+    );
+    return { created: true, customer };
+  } catch (error) {
+    if (!(error instanceof ConditionalCheckFailedException)) {
+      throw error;
+    }
+  }
+
+  const existing = await getCustomer(customer.userId);
+  if (!existing) {
+    throw new Error("Customer record was rejected as existing but could not be read");
+  }
+  return { created: false, customer: existing };
+}
+
+/**
+ * Sets the given fields on an existing record, leaving the rest alone. With a
+ * syncVersion the write is skipped if newer Stripe data was already stored.
+ */
+export function updateCustomer(
+  userId: string,
+  fields: CustomerUpdate,
+  options: Omit<UpdateOptions, "requireExisting"> = {}
+): Promise<UpdateResult<CustomerRecord>> {
+  return updateFields<CustomerRecord>(tableName(), { userId }, fields, {
+    ...options,
+    requireExisting: true,
+  });
+}
@@ -0,0 +1,79 @@
+// dynamo-update.ts
+// Partial updates that only touch the attributes passed in, optionally guarded
+// by a sync version so an older read of Stripe never overwrites a newer one.
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { dynamoClient } from "./clients";
+
+export type UpdateOptions = {
+  // Fail instead of creating the item if it does not exist yet
+  requireExisting?: boolean;
+  // Time we started reading from Stripe: whatever Stripe returns reflects at
+  // least the state at that moment, so a larger version is never older data.
+  // The write is rejected if the stored item has the same or a newer version.
+  syncVersion?: number;
+  // Write only if the stored item is still at exactly this version, i.e. no
+  // other sync has written it since. The version itself is left as it is.
+  atSyncVersion?: number;
+};
+
+// updated: false if a condition rejected the write, otherwise the item as it was
+// right before our write (undefined for a new item)
+export type UpdateResult<T = Record<string, unknown>> =
+  | { updated: false }
+  | { updated: true; previous: T | undefined };
+
+export async function updateFields<T = Record<string, unknown>>(
+  tableName: string,
+  key: Record<string, string>,
+  fields: Record<string, unknown>,
+  options: UpdateOptions = {}
+): Promise<UpdateResult<T>> {
+  const { requireExisting = false, syncVersion, atSyncVersion } = options;
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {};
+  const assignments = Object.entries({
+    ...fields,
+    ...(syncVersion !== undefined && { syncVersion }),
+    updatedAt: new Date().toISOString(),
+  }).map(([name, value]) => {
+    names[`#${name}`] = name;
+    values[`:${name}`] = value;
+    return `#${name} = :${name}`;
+  });
+
+  const conditions: string[] = [];
+  if (requireExisting) {
+    const [keyName] = Object.keys(key);
+    names[`#${keyName}`] = keyName;
+    conditions.push(`attribute_exists(#${keyName})`);
+  }
+  if (syncVersion !== undefined) {
+    conditions.push("(attribute_not_exists(#syncVersion) OR #syncVersion < :syncVersion)");
+  }
+  if (atSyncVersion !== undefined) {
+    names["#syncVersion"] = "syncVersion";
+    values[":atSyncVersion"] = atSyncVersion;
+    conditions.push("#syncVersion = :atSyncVersion");
+  }
+
+  try {
+    const { Attributes } = await dynamoClient().send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: `SET ${assignments.join(", ")}`,
+        ConditionExpression: conditions.length > 0 ? conditions.join(" AND ") : undefined,
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+        ReturnValues: "ALL_OLD",
+      })
+    );
+    return { updated: true, previous: Attributes as T | undefined };
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return { updated: false };
+    }
+    throw error;
+  }
+}
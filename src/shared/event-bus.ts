@@ -0,0 +1,32 @@
+// event-bus.ts
+// Publishes notifications for other services (and our app) to the EventBridge
+// bus created by StripeFunctionsStack.
+import { PutEventsCommand } from "@aws-sdk/client-eventbridge";
+import { eventBridgeClient } from "./clients";
+
+export const EVENT_SOURCE = "stripe-backend";
+
+export async function publishEvent(
+  detailType: string,
+  detail: Record<string, unknown>
+): Promise<void> {
+  const { FailedEntryCount, Entries } = await eventBridgeClient().send(
+    new PutEventsCommand({
+      Entries: [
+        {
+          EventBusName: process.env.EVENT_BUS_NAME!,
+          Source: EVENT_SOURCE,
+          DetailType: detailType,
+          Detail: JSON.stringify(detail),
+        },
+      ],
+    })
+  );
+
+  // PutEvents reports per-entry failures instead of throwing
+  if (FailedEntryCount) {
+    throw new Error(
+      `Failed to publish ${detailType}: ${Entries?.[0]?.ErrorMessage ?? "unknown error"}`
+    );
+  }
+}
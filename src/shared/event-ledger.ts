@@ -0,0 +1,156 @@
+// event-ledger.ts
+// Records every Stripe webhook event we receive so duplicates can be skipped
+// and failures can be inspected and replayed (see scripts/replay-webhook-events.ts).
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type Stripe from "stripe";
+import { dynamoClient } from "./clients";
+
+// Keep ledger entries for 90 days; Stripe only retries for 3
+const RETENTION_SECONDS = 90 * 24 * 60 * 60;
+// Well past the webhook function's timeout, so a claim is only taken over once
+// the delivery that made it can no longer queue the event
+const CLAIM_TIMEOUT_SECONDS = 60;
+
+export type WebhookEventStatus =
+  | "ignored" // Not an event type we act on
+  | "receiving" // Claimed by a webhook delivery that is putting it on the queue
+  | "queued" // Put on the webhook queue for the sync function
+  | "processing"
+  | "processed"
+  | "failed";
+
+export type WebhookEventRecord = {
+  eventId: string;
+  type: string;
+  stripeCustomerId: string | null;
+  stripeCreatedAt: number; // Unix seconds, from the Stripe event
+  receivedAt: string; // ISO timestamp of the first delivery
+  receivedDate: string; // YYYY-MM-DD, partition key of receivedDate-index
+  status: WebhookEventStatus;
+  deliveries: number;
+  attempts?: number;
+  lastError?: string;
+  updatedAt: string;
+  expiresAt: number;
+};
+
+/**
+ * Claims a webhook event for processing. Returns false if the event has
+ * already been received and did not fail, i.e. it is a duplicate delivery.
+ * A claim left "receiving" for longer than the webhook can run (the delivery
+ * died before queueing the event) is taken over by the next delivery.
+ */
+export async function claimEvent(
+  stripeEvent: Stripe.Event,
+  stripeCustomerId: string | null,
+  status: WebhookEventStatus
+): Promise<boolean> {
+  const now = new Date();
+  try {
+    await dynamoClient().send(
+      new UpdateCommand({
+        TableName: process.env.EVENTS_TABLE!,
+        Key: { eventId: stripeEvent.id },
+        ConditionExpression: [
+          "attribute_not_exists(eventId) OR #status = :failed",
+          "OR (#status = :receiving AND updatedAt < :claimExpiredBefore)",
+        ].join(" "),
+        UpdateExpression: [
+          "SET #type = :type, stripeCustomerId = :customer, stripeCreatedAt = :created,",
+          "receivedAt = if_not_exists(receivedAt, :now),",
+          "receivedDate = if_not_exists(receivedDate, :today),",
+          "#status = :status, updatedAt = :now, expiresAt = :expiresAt",
+          "ADD deliveries :one",
+        ].join(" "),
+        ExpressionAttributeNames: {
+          "#type": "type",
+          "#status": "status",
+        },
+        ExpressionAttributeValues: {
+          ":type": stripeEvent.type,
+          ":customer": stripeCustomerId,
+          ":created": stripeEvent.created,
+          ":now": now.toISOString(),
+          ":today": now.toISOString().slice(0, 10),
+          ":status": status,
+          ":failed": "failed",
+          ":receiving": "receiving",
+          ":claimExpiredBefore": new Date(now.getTime() - CLAIM_TIMEOUT_SECONDS * 1000).toISOString(),
+          ":expiresAt": Math.floor(now.getTime() / 1000) + RETENTION_SECONDS,
+          ":one": 1,
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Marks a claimed event as queued. Leaves it alone if the sync function
+ * already picked it up from the queue.
+ */
+export async function markEventQueued(eventId: string): Promise<void> {
+  try {
+    await dynamoClient().send(
+      new UpdateCommand({
+        TableName: process.env.EVENTS_TABLE!,
+        Key: { eventId },
+        ConditionExpression: "#status = :receiving",
+        UpdateExpression: "SET #status = :queued, updatedAt = :now",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ":receiving": "receiving",
+          ":queued": "queued",
+          ":now": new Date().toISOString(),
+        },
+      })
+    );
+  } catch (error) {
+    if (!(error instanceof ConditionalCheckFailedException)) {
+      throw error;
+    }
+  }
+}
+
+export async function markEventStatus(
+  eventId: string,
+  status: WebhookEventStatus,
+  error?: string
+): Promise<void> {
+  const names: Record<string, string> = { "#status": "status" };
+  const values: Record<string, unknown> = {
+    ":status": status,
+    ":now": new Date().toISOString(),
+  };
+  const sets = ["#status = :status", "updatedAt = :now"];
+  const clauses: string[] = [];
+
+  if (status === "processing") {
+    clauses.push("ADD attempts :one");
+    values[":one"] = 1;
+  }
+  if (error) {
+    sets.push("lastError = :error");
+    values[":error"] = error;
+  } else {
+    clauses.push("REMOVE lastError");
+  }
+
+  await dynamoClient().send(
+    new UpdateCommand({
+      TableName: process.env.EVENTS_TABLE!,
+      Key: { eventId },
+      // Only touch events the webhook has recorded
+      ConditionExpression: "attribute_exists(eventId)",
+      UpdateExpression: [`SET ${sets.join(", ")}`, ...clauses].join(" "),
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: values,
+    })
+  );
+}
@@ -0,0 +1,105 @@
+// logger.ts
+// Structured JSON logs. Every line carries the invocation's context (request id,
+// correlation id, Cognito sub, Stripe customer and event ids), so one Stripe event
+// can be followed from the webhook through the queue into sync with a single
+// CloudWatch Logs Insights query, e.g.
+//
+//   fields @timestamp, level, message | filter correlationId = "evt_..."
+//
+// LOG_LEVEL (debug, info, warn, error or silent) sets the minimum level logged.
+
+export type LogContext = {
+  requestId?: string;
+  // Shared by every function that handles the same request or Stripe event
+  correlationId?: string;
+  userId?: string;
+  stripeCustomerId?: string;
+  stripeEventId?: string;
+};
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+const levels: Record<LogLevel | "silent", number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+// Lambda handles one invocation at a time per container, so the context can be
+// module state. Each handler resets it when an invocation starts.
+let context: LogContext = {};
+
+export function resetLogContext(fields: LogContext = {}): void {
+  context = withoutEmpty(fields);
+}
+
+export function addLogContext(fields: LogContext): void {
+  context = { ...context, ...withoutEmpty(fields) };
+}
+
+export function getLogContext(): LogContext {
+  return { ...context };
+}
+
+function withoutEmpty(fields: LogContext): LogContext {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined && value !== null && value !== "")
+  );
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return {
+    name: error.name,
+    message: error.message,
+    // Stripe errors say which request and parameter failed
+    ...("code" in error && { code: error.code }),
+    ...("requestId" in error && { stripeRequestId: error.requestId }),
+    stack: error.stack,
+  };
+}
+
+// Plain objects are merged into the line; anything else is logged under `details`
+function toFields(details: unknown): Record<string, unknown> {
+  if (details === undefined) {
+    return {};
+  }
+  if (details instanceof Error) {
+    return { error: serializeError(details) };
+  }
+  if (typeof details === "object" && details !== null && !Array.isArray(details)) {
+    return Object.fromEntries(
+      Object.entries(details).map(([key, value]) => [
+        key,
+        value instanceof Error ? serializeError(value) : value,
+      ])
+    );
+  }
+  return { details };
+}
+
+function write(level: LogLevel, message: string, details?: unknown): void {
+  const minimum = levels[(process.env.LOG_LEVEL as LogLevel) ?? "info"] ?? levels.info;
+  if (levels[level] < minimum) {
+    return;
+  }
+
+  const line = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    function: process.env.AWS_LAMBDA_FUNCTION_NAME,
+    ...context,
+    ...toFields(details),
+  };
+  // Written directly so Lambda does not prefix the line, which keeps it parseable JSON
+  process.stdout.write(`${JSON.stringify(line)}\n`);
+}
+
+export const logger = {
+  debug: (message: string, details?: unknown) => write("debug", message, details),
+  info: (message: string, details?: unknown) => write("info", message, details),
+  warn: (message: string, details?: unknown) => write("warn", message, details),
+  error: (message: string, details?: unknown) => write("error", message, details),
+};
@@ -0,0 +1,53 @@
+// metrics.ts
+// Business metrics in CloudWatch Embedded Metric Format: each metric is a log line
+// that CloudWatch turns into a data point, so no PutMetricData calls (or permissions)
+// are needed. The alarms and dashboard in StripeFunctionsStack read these names.
+import { getLogContext } from "./logger";
+
+export const METRICS_NAMESPACE = "StripeBackend";
+
+export type MetricName =
+  | "CheckoutSessionCreated"
+  | "CheckoutFailed"
+  | "PortalSessionCreated"
+  | "PortalSessionFailed"
+  | "PlanChanged"
+  | "PlanChangeFailed"
+  | "SubscriptionCanceled"
+  | "SubscriptionReactivated"
+  | "SubscriptionPaused"
+  | "SubscriptionActionFailed"
+  | "SyncSucceeded"
+  | "SyncStale"
+  | "SyncFailed"
+  | "SyncRateLimited"
+  | "SubscriptionEventsPublishFailed"
+  | "WebhookSignatureFailed";
+
+/**
+ * Records one data point under the Environment dimension. `properties` are not
+ * dimensions; they are kept on the log line for searching (e.g. the plan bought).
+ */
+export function putMetric(
+  name: MetricName,
+  value = 1,
+  properties: Record<string, unknown> = {}
+): void {
+  const line = {
+    _aws: {
+      Timestamp: Date.now(),
+      CloudWatchMetrics: [
+        {
+          Namespace: METRICS_NAMESPACE,
+          Dimensions: [["Environment"]],
+          Metrics: [{ Name: name, Unit: "Count" }],
+        },
+      ],
+    },
+    Environment: process.env.METRICS_ENVIRONMENT ?? "dev",
+    [name]: value,
+    ...getLogContext(),
+    ...properties,
+  };
+  process.stdout.write(`${JSON.stringify(line)}\n`);
+}
@@ -0,0 +1,66 @@
+// purchases.ts
+// Ledger of completed one-time purchases (credit packs, lifetime licenses), keyed by
+// userId + purchaseId. Written by the webhook, read by sync to resolve entitlements.
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  PutCommand,
+  QueryCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { dynamoClient } from "./clients";
+
+export type PurchaseRecord = {
+  userId: string;
+  purchaseId: string; // The Checkout Session ID
+  stripeCustomerId: string;
+  paymentIntentId: string | null;
+  plan: string | null;
+  priceId: string;
+  productId: string;
+  quantity: number;
+  amountTotal: number | null; // In the smallest currency unit
+  currency: string | null;
+  status: "paid";
+  purchasedAt: string;
+};
+
+/**
+ * Stores a purchase. Returns false if it was already recorded, since Stripe can
+ * deliver both checkout.session.completed and async_payment_succeeded for it.
+ */
+export async function recordPurchase(purchase: PurchaseRecord): Promise<boolean> {
+  try {
+    await dynamoClient().send(
+      new PutCommand({
+        TableName: process.env.PURCHASES_TABLE!,
+        Item: purchase,
+        ConditionExpression: "attribute_not_exists(purchaseId)",
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function listPurchases(userId: string): Promise<PurchaseRecord[]> {
+  const purchases: PurchaseRecord[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const { Items, LastEvaluatedKey } = await dynamoClient().send(
+      new QueryCommand({
+        TableName: process.env.PURCHASES_TABLE!,
+        KeyConditionExpression: "userId = :userId",
+        ExpressionAttributeValues: { ":userId": userId },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    purchases.push(...((Items ?? []) as PurchaseRecord[]));
+    exclusiveStartKey = LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return purchases;
+}
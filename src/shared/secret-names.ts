@@ -0,0 +1,10 @@
+// secret-names.ts
+// Where each stage's Stripe credentials live in Secrets Manager. The secrets are
+// created outside CloudFormation (scripts/stripe-secrets.ts), so their values
+// never appear in a template; the stack only grants access to them.
+export function stripeSecretNames(environment: string) {
+  return {
+    secretKey: `stripe-backend/${environment}/secret-key`,
+    webhookSecrets: `stripe-backend/${environment}/webhook-secrets`,
+  };
+}
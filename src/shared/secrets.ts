@@ -0,0 +1,84 @@
+// secrets.ts
+// Stripe credentials come from Secrets Manager rather than the function environment.
+// The stack passes each function the names of only the secrets it may read
+// (see secret-names.ts):
+//
+//   STRIPE_SECRET_KEY_SECRET_ID        the API key, as a plain string
+//   STRIPE_WEBHOOK_SECRETS_SECRET_ID   the endpoint signing secrets, as a JSON array
+//
+// Values are fetched on first use (i.e. at cold start) and cached for
+// SECRETS_CACHE_SECONDS, so a rotated webhook secret is picked up without a deploy.
+// Without a secret name the plain STRIPE_SECRET_KEY / STRIPE_WEBHOOK_SECRET variables
+// are used, which is how local development and the tests run.
+import { GetSecretValueCommand } from "@aws-sdk/client-secrets-manager";
+import { secretsManagerClient } from "./clients";
+
+type CachedSecret = {
+  value: Promise<string>;
+  expiresAt: number;
+};
+
+const cache = new Map<string, CachedSecret>();
+
+function cacheMilliseconds(): number {
+  return Number(process.env.SECRETS_CACHE_SECONDS ?? 300) * 1000;
+}
+
+async function fetchSecret(secretId: string): Promise<string> {
+  const { SecretString } = await secretsManagerClient().send(
+    new GetSecretValueCommand({ SecretId: secretId })
+  );
+  if (!SecretString) {
+    throw new Error(`Secret ${secretId} has no string value`);
+  }
+  return SecretString;
+}
+
+function readSecret(secretId: string): Promise<string> {
+  const cached = cache.get(secretId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const value = fetchSecret(secretId);
+  cache.set(secretId, { value, expiresAt: Date.now() + cacheMilliseconds() });
+  // A failed fetch is not cached, so the next invocation tries again
+  value.catch(() => cache.delete(secretId));
+  return value;
+}
+
+export async function getStripeSecretKey(): Promise<string> {
+  const secretId = process.env.STRIPE_SECRET_KEY_SECRET_ID;
+  const secretKey = secretId ? await readSecret(secretId) : process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error("Stripe secret key is not configured");
+  }
+  return secretKey.trim();
+}
+
+/**
+ * Every signing secret the webhook currently accepts. During a rotation both the
+ * old and the new endpoint secret are listed.
+ */
+export async function getWebhookSecrets(): Promise<string[]> {
+  const secretId = process.env.STRIPE_WEBHOOK_SECRETS_SECRET_ID;
+  const secrets: unknown = secretId
+    ? JSON.parse(await readSecret(secretId))
+    : (process.env.STRIPE_WEBHOOK_SECRET ?? "").split(",");
+
+  if (!Array.isArray(secrets)) {
+    throw new Error("Webhook secrets must be a JSON array of signing secrets");
+  }
+  const active = secrets.filter(
+    (secret): secret is string => typeof secret === "string" && secret.trim() !== ""
+  );
+  if (active.length === 0) {
+    throw new Error("No webhook signing secrets are configured");
+  }
+  return active.map((secret) => secret.trim());
+}
+
+// For the tests, which change the configured secrets between cases
+export function clearSecretCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,19 @@
+// stripe-client.ts
+// Creates the Stripe client for a function (see loadStripeClient in clients.ts).
+// STRIPE_API_BASE points it at another API host, such as stripe-mock when running
+// locally (see scripts/local/).
+import Stripe from "stripe";
+
+export function createStripeClient(secretKey: string): Stripe {
+  const apiBase = process.env.STRIPE_API_BASE;
+  if (!apiBase) {
+    return new Stripe(secretKey);
+  }
+
+  const url = new URL(apiBase);
+  return new Stripe(secretKey, {
+    host: url.hostname,
+    port: url.port || undefined,
+    protocol: url.protocol === "http:" ? "http" : "https",
+  });
+}
@@ -0,0 +1,35 @@
+// webhook-queue.ts
+// Verified webhook events are buffered on an SQS queue and processed by the sync
+// function, so a failed sync is retried (and eventually dead-lettered) instead of lost.
+import { SendMessageCommand } from "@aws-sdk/client-sqs";
+import { sqsClient } from "./clients";
+
+// Only references go on the queue; the consumer fetches the event from Stripe,
+// which keeps messages small and the payload authoritative
+export type WebhookQueueMessage = {
+  eventId: string;
+  eventType: string;
+  stripeCustomerId: string;
+  // The webhook request that queued the event, carried into the sync logs
+  correlationId?: string;
+};
+
+export async function enqueueWebhookEvent(message: WebhookQueueMessage): Promise<void> {
+  await sqsClient().send(
+    new SendMessageCommand({
+      QueueUrl: process.env.WEBHOOK_QUEUE_URL!,
+      MessageBody: JSON.stringify(message),
+      MessageAttributes: {
+        eventType: { DataType: "String", StringValue: message.eventType },
+      },
+    })
+  );
+}
+
+export function parseWebhookQueueMessage(body: string): WebhookQueueMessage {
+  const message = JSON.parse(body);
+  if (typeof message?.eventId !== "string" || typeof message?.stripeCustomerId !== "string") {
+    throw new Error("Malformed webhook queue message");
+  }
+  return message;
+}
@@ -0,0 +1,11 @@
+// cancel-subscription.ts
+// POST /subscription/cancel: cancels at the end of the paid period, with the
+// answers to the cancellation survey ({ reason, feedback }).
+import { cancelSubscription, CancelRequest } from "./subscription-actions";
+import { subscriptionActionHandler } from "./subscription-action-handler";
+
+export const handler = subscriptionActionHandler<CancelRequest>({
+  name: "cancel",
+  metric: "SubscriptionCanceled",
+  run: cancelSubscription,
+});
@@ -0,0 +1,58 @@
+// change-plan.ts
+// POST /subscription/change-plan: moves the subscription to another catalog plan.
+// The customer record catches up through the customer.subscription.updated webhook.
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { loadStripeClient } from "../shared/clients";
+import { corsHeaders } from "../shared/cors";
+import { logger, resetLogContext } from "../shared/logger";
+import { putMetric } from "../shared/metrics";
+import { planChangeFromRequest } from "./plan-change-request";
+import { applyPlanChange } from "./plan-changes";
+
+export const handler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  resetLogContext({
+    requestId: event.requestContext.requestId,
+    correlationId: event.requestContext.requestId,
+  });
+  logger.info("Starting change-plan handler");
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...corsHeaders(event),
+  };
+
+  try {
+    await loadStripeClient();
+
+    const request = await planChangeFromRequest(event, headers);
+    if (!request.ok) {
+      return request.response;
+    }
+
+    const applied = await applyPlanChange(request.change);
+    logger.info("Changed plan", { ...applied });
+    putMetric("PlanChanged", 1, {
+      plan: applied.plan,
+      direction: applied.direction,
+      effective: applied.effective,
+    });
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(applied),
+    };
+  } catch (error) {
+    logger.error("Error in change-plan handler", { error });
+    putMetric("PlanChangeFailed");
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: "Failed to change plan",
+      }),
+    };
+  }
+};
@@ -0,0 +1,29 @@
+// current-subscription.ts
+// The subscription the in-app actions work on: the one sync stored on the
+// customer record, read fresh from Stripe.
+import Stripe from "stripe";
+import { stripeClient } from "../shared/clients";
+import type { CustomerRecord } from "../shared/customer-repository";
+
+// Past-due and other unsettled subscriptions have to be paid before they can change
+export const changeableStatuses: Stripe.Subscription.Status[] = ["active", "trialing"];
+
+/**
+ * Null when the customer has no subscription in a changeable state, or the
+ * record points at a subscription that belongs to someone else.
+ */
+export async function currentSubscription(
+  customer: CustomerRecord
+): Promise<Stripe.Subscription | null> {
+  if (!customer.subscriptionId) {
+    return null;
+  }
+  const subscription = await stripeClient().subscriptions.retrieve(customer.subscriptionId);
+  if (
+    subscription.customer !== customer.stripeCustomerId ||
+    !changeableStatuses.includes(subscription.status)
+  ) {
+    return null;
+  }
+  return subscription;
+}
@@ -0,0 +1,10 @@
+// pause-subscription.ts
+// POST /subscription/pause: pauses billing for { months } after the paid period.
+import { pauseSubscription, PauseRequest } from "./subscription-actions";
+import { subscriptionActionHandler } from "./subscription-action-handler";
+
+export const handler = subscriptionActionHandler<PauseRequest>({
+  name: "pause",
+  metric: "SubscriptionPaused",
+  run: pauseSubscription,
+});
@@ -0,0 +1,35 @@
+// plan-change-request.ts
+// Turns a preview or change-plan request into a resolved plan change.
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { parsePriceCatalog } from "../checkout/price-catalog";
+import { logger } from "../shared/logger";
+import { PlanChange, PlanChangeRequest, resolvePlanChange } from "./plan-changes";
+import { rejectRequest, subscriptionRequest } from "./subscription-request";
+
+const PRICE_CATALOG = parsePriceCatalog(process.env.PRICE_CATALOG);
+
+export type PlanChangeRequestResult =
+  | { ok: true; change: PlanChange }
+  | { ok: false; response: APIGatewayProxyResult };
+
+export async function planChangeFromRequest(
+  event: APIGatewayProxyEvent,
+  headers: Record<string, string>
+): Promise<PlanChangeRequestResult> {
+  const request = await subscriptionRequest<PlanChangeRequest>(event, headers);
+  if (!request.ok) {
+    return request;
+  }
+
+  const resolution = await resolvePlanChange(PRICE_CATALOG, request.customer, request.body);
+  if (!resolution.ok) {
+    logger.info("Rejected plan change request", { error: resolution.error });
+    return rejectRequest(headers, resolution.statusCode, resolution.error);
+  }
+  logger.info("Resolved plan change", {
+    plan: resolution.value.plan,
+    priceId: resolution.value.price.id,
+    direction: resolution.value.direction,
+  });
+  return { ok: true, change: resolution.value };
+}
@@ -0,0 +1,289 @@
+// plan-changes.ts
+// Moves a customer's subscription to another plan in the price catalog, for the
+// in-app pricing page. Upgrades apply immediately with the requested proration.
+// Downgrades are scheduled for the end of the paid period through a subscription
+// schedule, so the customer keeps what they already paid for.
+import Stripe from "stripe";
+import {
+  BillingInterval,
+  CheckoutRequest,
+  planPriceIds,
+  PriceCatalog,
+  resolvePlanPrice,
+} from "../checkout/price-catalog";
+import { stripeClient } from "../shared/clients";
+import type { CustomerRecord } from "../shared/customer-repository";
+import { currentSubscription } from "./current-subscription";
+
+export type ProrationBehavior = Stripe.SubscriptionUpdateParams.ProrationBehavior;
+
+const prorationBehaviors: ProrationBehavior[] = ["always_invoice", "create_prorations", "none"];
+
+const intervalMonths: Record<BillingInterval, number> = { month: 1, year: 12 };
+
+export type PlanChangeRequest = CheckoutRequest & {
+  prorationBehavior?: unknown;
+  // From a preview, so the change is charged exactly as previewed
+  prorationDate?: unknown;
+};
+
+export type PlanChange = {
+  plan: string;
+  subscription: Stripe.Subscription;
+  // The subscription item holding the catalog plan; add-on items are left alone
+  item: Stripe.SubscriptionItem;
+  price: Stripe.Price;
+  quantity: number;
+  direction: "upgrade" | "downgrade";
+  prorationBehavior: ProrationBehavior;
+  prorationDate: number;
+};
+
+export type PlanChangeResolution =
+  | { ok: true; value: PlanChange }
+  | { ok: false; statusCode: number; error: string };
+
+export type PlanChangePreview = {
+  plan: string;
+  direction: PlanChange["direction"];
+  effective: "now" | "period_end";
+  prorationBehavior: ProrationBehavior;
+  prorationDate: number;
+  currency: string;
+  // In the smallest currency unit
+  amountDueNow: number;
+  nextInvoice: { total: number; date: number | null };
+};
+
+export type AppliedPlanChange = {
+  plan: string;
+  direction: PlanChange["direction"];
+  effective: "now" | "period_end";
+  effectiveAt: number;
+  subscriptionId: string;
+  // The prorated invoice could not be paid yet; the change applies once it is
+  paymentPending: boolean;
+};
+
+const invalid = (statusCode: number, error: string): PlanChangeResolution => ({
+  ok: false,
+  statusCode,
+  error,
+});
+
+// Compares what the customer pays per interval. Moving to a shorter interval
+// (yearly to monthly) counts as a downgrade, since the year is already paid.
+function changeDirection(
+  current: Stripe.SubscriptionItem,
+  price: Stripe.Price,
+  quantity: number
+): PlanChange["direction"] {
+  const currentMonths = intervalMonths[current.price.recurring?.interval as BillingInterval] ?? 1;
+  const newMonths = intervalMonths[price.recurring?.interval as BillingInterval] ?? 1;
+  if (newMonths !== currentMonths) {
+    return newMonths > currentMonths ? "upgrade" : "downgrade";
+  }
+  const currentAmount = (current.price.unit_amount ?? 0) * (current.quantity ?? 1);
+  const newAmount = (price.unit_amount ?? 0) * quantity;
+  return newAmount < currentAmount ? "downgrade" : "upgrade";
+}
+
+/**
+ * Checks a plan change request against the catalog and the customer's current
+ * subscription in Stripe.
+ */
+export async function resolvePlanChange(
+  catalog: PriceCatalog,
+  customer: CustomerRecord,
+  request: PlanChangeRequest
+): Promise<PlanChangeResolution> {
+  const prorationBehavior = request.prorationBehavior ?? "always_invoice";
+  if (!prorationBehaviors.includes(prorationBehavior as ProrationBehavior)) {
+    return invalid(400, `prorationBehavior must be one of: ${prorationBehaviors.join(", ")}`);
+  }
+  if (request.plan === undefined) {
+    return invalid(400, "plan is required");
+  }
+
+  const resolution = resolvePlanPrice(catalog, request);
+  if (!resolution.ok) {
+    return invalid(400, resolution.error);
+  }
+  const selection = resolution.value;
+  if (selection.mode !== "subscription") {
+    return invalid(400, `Plan "${selection.plan}" is a one-time purchase`);
+  }
+
+  const subscription = await currentSubscription(customer);
+  if (!subscription) {
+    return invalid(409, "No active subscription to change");
+  }
+
+  const catalogPriceIds = Object.values(catalog.plans)
+    .filter((plan) => plan.mode !== "payment")
+    .flatMap(planPriceIds);
+  const item = subscription.items.data.find((candidate) => catalogPriceIds.includes(candidate.price.id));
+  if (!item) {
+    return invalid(409, "The subscription is not on a plan that can be changed here");
+  }
+  // Without a quantity the seats stay as they are. Seats are never dropped
+  // silently: if the new plan allows fewer, the caller has to choose how many.
+  const { maxQuantity } = catalog.plans[selection.plan];
+  if (request.quantity === undefined && (item.quantity ?? 1) > maxQuantity) {
+    return invalid(
+      400,
+      `Plan "${selection.plan}" allows at most ${maxQuantity} seats; the subscription has ${item.quantity}, so a quantity is required`
+    );
+  }
+  const quantity = request.quantity === undefined ? item.quantity ?? 1 : selection.quantity;
+  if (item.price.id === selection.priceId && item.quantity === quantity) {
+    return invalid(400, "The subscription is already on this plan");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const prorationDate = request.prorationDate ?? now;
+  if (
+    typeof prorationDate !== "number" ||
+    !Number.isInteger(prorationDate) ||
+    prorationDate < subscription.current_period_start ||
+    prorationDate > Math.min(now, subscription.current_period_end)
+  ) {
+    return invalid(400, "prorationDate must be a time in the current billing period");
+  }
+
+  const price = await stripeClient().prices.retrieve(selection.priceId);
+  return {
+    ok: true,
+    value: {
+      plan: selection.plan,
+      subscription,
+      item,
+      price,
+      quantity,
+      direction: changeDirection(item, price, quantity),
+      prorationBehavior: prorationBehavior as ProrationBehavior,
+      prorationDate,
+    },
+  };
+}
+
+// The subscription's items after the change
+function changedItems(change: PlanChange) {
+  return change.subscription.items.data.map((item) =>
+    item.id === change.item.id
+      ? { price: change.price.id, quantity: change.quantity }
+      : { price: item.price.id, quantity: item.quantity }
+  );
+}
+
+function previewInvoice(change: PlanChange, prorationBehavior: ProrationBehavior) {
+  const { subscription } = change;
+  return stripeClient().invoices.createPreview({
+    customer: subscription.customer as string,
+    subscription: subscription.id,
+    subscription_details: {
+      items: [{ id: change.item.id, price: change.price.id, quantity: change.quantity }],
+      proration_behavior: prorationBehavior,
+      // Stripe rejects a proration date when nothing is prorated
+      ...(prorationBehavior !== "none" && { proration_date: change.prorationDate }),
+    },
+  });
+}
+
+/**
+ * What the change costs, with the proration the change is applied with: the
+ * amount charged right away (only with always_invoice) and the total of the
+ * next regular invoice.
+ */
+export async function previewPlanChange(change: PlanChange): Promise<PlanChangePreview> {
+  const { direction } = change;
+  // Downgrades wait for the renewal, where nothing is prorated
+  const prorationBehavior = direction === "downgrade" ? "none" : change.prorationBehavior;
+
+  let amountDueNow = 0;
+  let next: Stripe.Invoice;
+  if (prorationBehavior === "always_invoice") {
+    const immediate = await previewInvoice(change, "always_invoice");
+    amountDueNow = immediate.amount_due;
+    next = await previewInvoice(change, "none");
+  } else {
+    next = await previewInvoice(change, prorationBehavior);
+  }
+
+  return {
+    plan: change.plan,
+    direction,
+    effective: direction === "downgrade" ? "period_end" : "now",
+    prorationBehavior,
+    prorationDate: change.prorationDate,
+    currency: next.currency,
+    amountDueNow,
+    nextInvoice: { total: next.total, date: next.next_payment_attempt ?? next.period_end },
+  };
+}
+
+/**
+ * Applies the change. A pending downgrade from an earlier request is dropped
+ * first, so the latest choice wins.
+ */
+export async function applyPlanChange(change: PlanChange): Promise<AppliedPlanChange> {
+  const stripe = stripeClient();
+  const { subscription } = change;
+
+  if (subscription.schedule) {
+    const scheduleId =
+      typeof subscription.schedule === "string" ? subscription.schedule : subscription.schedule.id;
+    await stripe.subscriptionSchedules.release(scheduleId);
+  }
+
+  if (change.direction === "upgrade") {
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: change.item.id, price: change.price.id, quantity: change.quantity }],
+      // As previewed, so the customer is charged what the preview showed
+      proration_behavior: change.prorationBehavior,
+      ...(change.prorationBehavior !== "none" && { proration_date: change.prorationDate }),
+      // With always_invoice, leaves the subscription unchanged if the prorated
+      // invoice can't be paid
+      payment_behavior: "pending_if_incomplete",
+    });
+    return {
+      plan: change.plan,
+      direction: change.direction,
+      effective: "now",
+      effectiveAt: Math.floor(Date.now() / 1000),
+      subscriptionId: subscription.id,
+      paymentPending: !!updated.pending_update,
+    };
+  }
+
+  // The current phase runs to the end of the period, then the new plan starts
+  // and the schedule releases the subscription back to normal billing
+  const schedule = await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+  const [current] = schedule.phases;
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: "release",
+    phases: [
+      {
+        items: current.items.map((item) => ({
+          price: typeof item.price === "string" ? item.price : item.price.id,
+          quantity: item.quantity,
+        })),
+        start_date: current.start_date,
+        end_date: current.end_date,
+      },
+      {
+        items: changedItems(change),
+        iterations: 1,
+        proration_behavior: "none",
+      },
+    ],
+  });
+  return {
+    plan: change.plan,
+    direction: change.direction,
+    effective: "period_end",
+    effectiveAt: current.end_date,
+    subscriptionId: subscription.id,
+    paymentPending: false,
+  };
+}
@@ -0,0 +1,50 @@
+// preview-plan-change.ts
+// POST /subscription/change-plan/preview: what moving to another plan would cost.
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { loadStripeClient } from "../shared/clients";
+import { corsHeaders } from "../shared/cors";
+import { logger, resetLogContext } from "../shared/logger";
+import { planChangeFromRequest } from "./plan-change-request";
+import { previewPlanChange } from "./plan-changes";
+
+export const handler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  resetLogContext({
+    requestId: event.requestContext.requestId,
+    correlationId: event.requestContext.requestId,
+  });
+  logger.info("Starting preview-plan-change handler");
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...corsHeaders(event),
+  };
+
+  try {
+    await loadStripeClient();
+
+    const request = await planChangeFromRequest(event, headers);
+    if (!request.ok) {
+      return request.response;
+    }
+
+    const preview = await previewPlanChange(request.change);
+    logger.info("Previewed plan change", { ...preview, nextInvoice: preview.nextInvoice.total });
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(preview),
+    };
+  } catch (error) {
+    logger.error("Error in preview-plan-change handler", { error });
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: "Failed to preview plan change",
+      }),
+    };
+  }
+};
@@ -0,0 +1,10 @@
+// reactivate-subscription.ts
+// POST /subscription/reactivate: undoes a scheduled cancellation or ends a pause.
+import { reactivateSubscription } from "./subscription-actions";
+import { subscriptionActionHandler } from "./subscription-action-handler";
+
+export const handler = subscriptionActionHandler({
+  name: "reactivate",
+  metric: "SubscriptionReactivated",
+  run: reactivateSubscription,
+});
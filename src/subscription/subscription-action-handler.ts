@@ -0,0 +1,76 @@
+// subscription-action-handler.ts
+// Builds the handlers for the cancel, reactivate and pause endpoints. Each one
+// changes the subscription in Stripe, then syncs the user right away instead
+// of waiting for the webhook.
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { loadStripeClient } from "../shared/clients";
+import { corsHeaders } from "../shared/cors";
+import type { CustomerRecord } from "../shared/customer-repository";
+import { logger, resetLogContext } from "../shared/logger";
+import { MetricName, putMetric } from "../shared/metrics";
+import { toSubscriptionData } from "../sync/subscription-data";
+import type { SubscriptionActionResult } from "./subscription-actions";
+import { rejectRequest, subscriptionRequest } from "./subscription-request";
+import { syncNow } from "./sync-now";
+
+type SubscriptionAction<T> = {
+  // Used in log messages and as the metric's action property
+  name: string;
+  metric: MetricName;
+  run: (customer: CustomerRecord, body: T) => Promise<SubscriptionActionResult>;
+};
+
+export function subscriptionActionHandler<T extends object>(action: SubscriptionAction<T>) {
+  return async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    resetLogContext({
+      requestId: event.requestContext.requestId,
+      correlationId: event.requestContext.requestId,
+    });
+    logger.info(`Starting ${action.name}-subscription handler`);
+
+    const headers = {
+      "Content-Type": "application/json",
+      ...corsHeaders(event),
+    };
+
+    try {
+      await loadStripeClient();
+
+      const request = await subscriptionRequest<T>(event, headers);
+      if (!request.ok) {
+        return request.response;
+      }
+
+      const result = await action.run(request.customer, request.body);
+      if (!result.ok) {
+        logger.info(`Rejected ${action.name} request`, { error: result.error });
+        return rejectRequest(headers, result.statusCode, result.error).response;
+      }
+
+      const subscription = toSubscriptionData(result.subscription);
+      logger.info(`Subscription ${action.name} done`, {
+        subscriptionId: subscription.subscriptionId,
+        cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+        pause: subscription.pause,
+      });
+      putMetric(action.metric);
+
+      const synced = await syncNow(request.customer.userId);
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ subscription, synced }),
+      };
+    } catch (error) {
+      logger.error(`Error in ${action.name}-subscription handler`, { error });
+      putMetric("SubscriptionActionFailed", 1, { action: action.name });
+      return {
+        statusCode: 500,
+        headers,
+        body: JSON.stringify({
+          error: `Failed to ${action.name} subscription`,
+        }),
+      };
+    }
+  };
+}
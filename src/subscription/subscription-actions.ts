@@ -0,0 +1,147 @@
+// subscription-actions.ts
+// In-app cancel, reactivate and pause, so users don't have to go through the
+// billing portal. Cancellation always happens at the end of the paid period,
+// and a pause only stops access once the paid period runs out.
+import Stripe from "stripe";
+import { stripeClient } from "../shared/clients";
+import { CustomerRecord, updateCustomer } from "../shared/customer-repository";
+import { PAUSE_STARTS_AT_METADATA } from "../sync/subscription-data";
+import { currentSubscription } from "./current-subscription";
+
+export type CancellationReason = Stripe.SubscriptionUpdateParams.CancellationDetails.Feedback;
+
+// Stripe's cancellation feedback values, so the survey also shows up in Stripe
+export const cancellationReasons: CancellationReason[] = [
+  "customer_service",
+  "low_quality",
+  "missing_features",
+  "other",
+  "switched_service",
+  "too_complex",
+  "too_expensive",
+  "unused",
+];
+
+const MAX_FEEDBACK_LENGTH = 1000;
+export const MAX_PAUSE_MONTHS = 3;
+
+// Stored on the customer record, and kept there after a reactivation
+export type CancellationSurvey = {
+  reason: CancellationReason | null;
+  feedback: string | null;
+  submittedAt: string;
+};
+
+export type CancelRequest = { reason?: unknown; feedback?: unknown };
+export type PauseRequest = { months?: unknown };
+
+export type SubscriptionActionResult =
+  | { ok: true; subscription: Stripe.Subscription }
+  | { ok: false; statusCode: number; error: string };
+
+const invalid = (statusCode: number, error: string): SubscriptionActionResult => ({
+  ok: false,
+  statusCode,
+  error,
+});
+
+const noSubscription = () => invalid(409, "No active subscription");
+
+function addMonths(timestamp: number, months: number): number {
+  const date = new Date(timestamp * 1000);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Schedules the subscription to end with the current period and stores the
+ * survey answers. Cancelling again only replaces the answers.
+ */
+export async function cancelSubscription(
+  customer: CustomerRecord,
+  request: CancelRequest
+): Promise<SubscriptionActionResult> {
+  const { reason = null, feedback = null } = request;
+  if (reason !== null && !cancellationReasons.includes(reason as CancellationReason)) {
+    return invalid(400, `reason must be one of: ${cancellationReasons.join(", ")}`);
+  }
+  if (feedback !== null && (typeof feedback !== "string" || feedback.length > MAX_FEEDBACK_LENGTH)) {
+    return invalid(400, `feedback must be a string of at most ${MAX_FEEDBACK_LENGTH} characters`);
+  }
+
+  const subscription = await currentSubscription(customer);
+  if (!subscription) {
+    return noSubscription();
+  }
+
+  const survey: CancellationSurvey = {
+    reason: reason as CancellationReason | null,
+    feedback: (feedback as string | null)?.trim() || null,
+    submittedAt: new Date().toISOString(),
+  };
+  const updated = await stripeClient().subscriptions.update(subscription.id, {
+    cancel_at_period_end: true,
+    cancellation_details: {
+      feedback: survey.reason ?? "",
+      comment: survey.feedback ?? "",
+    },
+  });
+  await updateCustomer(customer.userId, { lastCancellation: survey });
+  return { ok: true, subscription: updated };
+}
+
+/**
+ * Undoes a scheduled cancellation and ends a pause early, putting the
+ * subscription back on normal billing.
+ */
+export async function reactivateSubscription(
+  customer: CustomerRecord
+): Promise<SubscriptionActionResult> {
+  const subscription = await currentSubscription(customer);
+  if (!subscription) {
+    return noSubscription();
+  }
+  if (!subscription.cancel_at_period_end && !subscription.pause_collection) {
+    return invalid(409, "The subscription is neither canceled nor paused");
+  }
+
+  const updated = await stripeClient().subscriptions.update(subscription.id, {
+    cancel_at_period_end: false,
+    pause_collection: "",
+    metadata: { [PAUSE_STARTS_AT_METADATA]: "" },
+  });
+  return { ok: true, subscription: updated };
+}
+
+/**
+ * Pauses collection for whole months counted from the end of the paid period.
+ * Invoices in between are voided and Stripe resumes billing by itself.
+ * Pausing again replaces the earlier pause.
+ */
+export async function pauseSubscription(
+  customer: CustomerRecord,
+  request: PauseRequest
+): Promise<SubscriptionActionResult> {
+  const { months } = request;
+  if (typeof months !== "number" || !Number.isInteger(months) || months < 1 || months > MAX_PAUSE_MONTHS) {
+    return invalid(400, `months must be a whole number from 1 to ${MAX_PAUSE_MONTHS}`);
+  }
+
+  const subscription = await currentSubscription(customer);
+  if (!subscription) {
+    return noSubscription();
+  }
+  if (subscription.status !== "active") {
+    return invalid(409, "Only paid subscriptions can be paused");
+  }
+  if (subscription.cancel_at_period_end) {
+    return invalid(409, "The subscription is canceled; reactivate it first");
+  }
+
+  const startsAt = subscription.current_period_end;
+  const updated = await stripeClient().subscriptions.update(subscription.id, {
+    pause_collection: { behavior: "void", resumes_at: addMonths(startsAt, months) },
+    metadata: { [PAUSE_STARTS_AT_METADATA]: startsAt.toString() },
+  });
+  return { ok: true, subscription: updated };
+}
@@ -0,0 +1,54 @@
+// subscription-request.ts
+// The request handling shared by the /subscription/* endpoints that act on the
+// caller's subscription: the caller comes from the Cognito authorizer, the
+// options from the JSON body, and the Stripe customer from CUSTOMER_TABLE.
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { CustomerRecord, getCustomer } from "../shared/customer-repository";
+import { addLogContext, logger } from "../shared/logger";
+
+export type SubscriptionRequest<T> =
+  | { ok: true; customer: CustomerRecord; body: T }
+  | { ok: false; response: APIGatewayProxyResult };
+
+export function rejectRequest(
+  headers: Record<string, string>,
+  statusCode: number,
+  error: string
+): { ok: false; response: APIGatewayProxyResult } {
+  return {
+    ok: false,
+    response: { statusCode, headers, body: JSON.stringify({ error }) },
+  };
+}
+
+export async function subscriptionRequest<T extends object>(
+  event: APIGatewayProxyEvent,
+  headers: Record<string, string>
+): Promise<SubscriptionRequest<T>> {
+  const cognitoSub: string | undefined = event.requestContext.authorizer?.claims?.sub;
+  addLogContext({ userId: cognitoSub });
+  if (!cognitoSub) {
+    logger.warn("No Cognito sub found in request");
+    return rejectRequest(headers, 401, "Unauthorized - No user ID found");
+  }
+
+  let body: T;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch {
+    return rejectRequest(headers, 400, "Request body must be valid JSON");
+  }
+  if (typeof body !== "object" || body === null) {
+    return rejectRequest(headers, 400, "Request body must be a JSON object");
+  }
+
+  logger.info("Fetching customer from DynamoDB");
+  const customer = await getCustomer(cognitoSub);
+  if (!customer?.stripeCustomerId) {
+    logger.warn("No Stripe customer found");
+    return rejectRequest(headers, 404, "No Stripe customer found for this user");
+  }
+  addLogContext({ stripeCustomerId: customer.stripeCustomerId });
+
+  return { ok: true, customer, body };
+}
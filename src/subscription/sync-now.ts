@@ -0,0 +1,35 @@
+// sync-now.ts
+// Runs sync for the user and waits for it, so the customer record and the
+// Cognito attributes show an in-app change before the endpoint responds.
+import { InvokeCommand } from "@aws-sdk/client-lambda";
+import { lambdaClient } from "../shared/clients";
+import { getLogContext, logger } from "../shared/logger";
+
+/**
+ * False if the sync failed. The change is still made in Stripe, and the
+ * webhook it triggers syncs the user again, so callers only report it.
+ */
+export async function syncNow(userId: string): Promise<boolean> {
+  try {
+    const { Payload, FunctionError } = await lambdaClient().send(
+      new InvokeCommand({
+        FunctionName: process.env.STRIPE_SYNC_FUNCTION_NAME!,
+        InvocationType: "RequestResponse",
+        Payload: Buffer.from(
+          JSON.stringify({ userId, correlationId: getLogContext().correlationId })
+        ),
+      })
+    );
+    const result = Payload ? JSON.parse(Buffer.from(Payload).toString()) : null;
+    if (FunctionError || result?.statusCode !== 200) {
+      logger.warn("Sync after subscription change failed", {
+        error: result?.error ?? FunctionError,
+      });
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.warn("Failed to invoke sync after subscription change", { error });
+    return false;
+  }
+}
@@ -0,0 +1,222 @@
+// subscription-data.ts
+// Builds the per-customer subscription collection that sync stores, and picks
+// the "effective" subscription whose status is mirrored to the customer record and Cognito.
+import type { Stripe } from 'stripe';
+
+export type PaymentMethodSummary = {
+  brand: string | null;
+  last4: string | null;
+};
+
+// Lets the app show e.g. "20% off until March" without calling Stripe
+export type DiscountData = {
+  couponId: string;
+  name: string | null;
+  promotionCodeId: string | null;
+  percentOff: number | null;
+  amountOff: number | null; // In the smallest currency unit
+  currency: string | null;
+  duration: Stripe.Coupon.Duration;
+  start: number;
+  end: number | null; // Null for discounts that never end
+};
+
+// Subscription metadata key holding when a pause requested in the app starts
+// (src/subscription/subscription-actions.ts). Collection is paused right away,
+// but the customer keeps access until the end of the period they paid for.
+export const PAUSE_STARTS_AT_METADATA = 'pause_starts_at';
+
+// Invoices are voided while collection is paused
+export type PauseData = {
+  startsAt: number;
+  resumesAt: number | null; // Null for pauses without an end
+};
+
+export type SubscriptionItemData = {
+  itemId: string;
+  priceId: string;
+  productId: string;
+  quantity: number;
+};
+
+// One row of the subscriptions table (keyed by userId + subscriptionId)
+export type SubscriptionData = {
+  subscriptionId: string;
+  status: Stripe.Subscription.Status;
+  items: SubscriptionItemData[];
+  currentPeriodEnd: number;
+  currentPeriodStart: number;
+  cancelAtPeriodEnd: boolean;
+  canceledAt: number | null;
+  trialStart: number | null;
+  trialEnd: number | null;
+  discount: DiscountData | null;
+  pause: PauseData | null;
+  created: number;
+  paymentMethod: PaymentMethodSummary | null;
+};
+
+// Fields stored on the customer record, describing the effective subscription
+export type EffectiveSubscriptionData = {
+  subscriptionId: string | null;
+  status: Stripe.Subscription.Status | 'none';
+  priceId: string | null;
+  currentPeriodEnd: number | null;
+  currentPeriodStart: number | null;
+  cancelAtPeriodEnd: boolean;
+  trialStart: number | null;
+  trialEnd: number | null;
+  discount: DiscountData | null;
+  pause: PauseData | null;
+  paymentMethod: PaymentMethodSummary | null;
+};
+
+export type StripeSubscriptionData = EffectiveSubscriptionData & {
+  subscriptions: SubscriptionData[];
+};
+
+// Highest priority first. A customer with an active subscription next to a
+// canceled one is active; statuses that still grant access rank above those that don't.
+export const statusPriority: Stripe.Subscription.Status[] = [
+  'active',
+  'trialing',
+  'past_due',
+  'unpaid',
+  'paused',
+  'incomplete',
+  'incomplete_expired',
+  'canceled',
+];
+
+// Subscriptions in these states unlock their entitlements
+export const accessGrantingStatuses: Stripe.Subscription.Status[] = [
+  'active',
+  'trialing',
+  'past_due',
+];
+
+// Subscriptions in these states are over. Any other subscription can still be
+// paid, resumed or changed, so the customer is sent to the billing portal
+// instead of starting a second one.
+export const endedStatuses: EffectiveSubscriptionData['status'][] = [
+  'canceled',
+  'incomplete_expired',
+  'none',
+];
+
+// Expects `discounts` to be expanded; only the first subscription-level discount is recorded
+function toDiscountData(subscription: Stripe.Subscription): DiscountData | null {
+  const discount =
+    subscription.discounts.find(
+      (entry): entry is Stripe.Discount => typeof entry !== 'string'
+    ) ?? subscription.discount;
+  if (!discount) {
+    return null;
+  }
+
+  const { coupon, promotion_code: promotionCode } = discount;
+  return {
+    couponId: coupon.id,
+    name: coupon.name,
+    promotionCodeId:
+      typeof promotionCode === 'string' ? promotionCode : promotionCode?.id ?? null,
+    percentOff: coupon.percent_off,
+    amountOff: coupon.amount_off,
+    currency: coupon.currency,
+    duration: coupon.duration,
+    start: discount.start,
+    end: discount.end,
+  };
+}
+
+// Pauses set up elsewhere (e.g. in the dashboard) have no start and apply at once
+function toPauseData(subscription: Stripe.Subscription): PauseData | null {
+  if (!subscription.pause_collection) {
+    return null;
+  }
+  return {
+    startsAt: Number(subscription.metadata?.[PAUSE_STARTS_AT_METADATA] ?? 0),
+    resumesAt: subscription.pause_collection.resumes_at,
+  };
+}
+
+export function toSubscriptionData(subscription: Stripe.Subscription): SubscriptionData {
+  const paymentMethod = subscription.default_payment_method;
+
+  return {
+    subscriptionId: subscription.id,
+    status: subscription.status,
+    items: subscription.items.data.map((item) => ({
+      itemId: item.id,
+      priceId: item.price.id,
+      productId:
+        typeof item.price.product === 'string' ? item.price.product : item.price.product.id,
+      quantity: item.quantity ?? 1,
+    })),
+    currentPeriodEnd: subscription.current_period_end,
+    currentPeriodStart: subscription.current_period_start,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    canceledAt: subscription.canceled_at,
+    trialStart: subscription.trial_start,
+    trialEnd: subscription.trial_end,
+    discount: toDiscountData(subscription),
+    pause: toPauseData(subscription),
+    created: subscription.created,
+    paymentMethod:
+      paymentMethod && typeof paymentMethod !== 'string'
+        ? {
+            brand: paymentMethod.card?.brand ?? null,
+            last4: paymentMethod.card?.last4 ?? null,
+          }
+        : null,
+  };
+}
+
+// Orders by status priority, then by the latest period end, then newest first
+function compareSubscriptions(a: SubscriptionData, b: SubscriptionData): number {
+  return (
+    statusPriority.indexOf(a.status) - statusPriority.indexOf(b.status) ||
+    b.currentPeriodEnd - a.currentPeriodEnd ||
+    b.created - a.created
+  );
+}
+
+export function buildSubscriptionData(
+  subscriptions: Stripe.Subscription[]
+): StripeSubscriptionData {
+  // Sorted so the effective subscription comes first
+  const collection = subscriptions.map(toSubscriptionData).sort(compareSubscriptions);
+  const effective = collection[0];
+
+  if (!effective) {
+    return {
+      subscriptionId: null,
+      status: 'none',
+      priceId: null,
+      currentPeriodEnd: null,
+      currentPeriodStart: null,
+      cancelAtPeriodEnd: false,
+      trialStart: null,
+      trialEnd: null,
+      discount: null,
+      pause: null,
+      paymentMethod: null,
+      subscriptions: [],
+    };
+  }
+
+  return {
+    subscriptionId: effective.subscriptionId,
+    status: effective.status,
+    priceId: effective.items[0]?.priceId ?? null,
+    currentPeriodEnd: effective.currentPeriodEnd,
+    currentPeriodStart: effective.currentPeriodStart,
+    cancelAtPeriodEnd: effective.cancelAtPeriodEnd,
+    trialStart: effective.trialStart,
+    trialEnd: effective.trialEnd,
+    discount: effective.discount,
+    pause: effective.pause,
+    paymentMethod: effective.paymentMethod,
+    subscriptions: collection,
+  };
+}
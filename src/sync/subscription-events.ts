@@ -0,0 +1,122 @@
+// subscription-events.ts
+// Compares the customer record before and after a sync and publishes a domain
+// event for every meaningful change, so other services can subscribe instead of
+// polling DynamoDB or Cognito.
+//
+// The state the published events describe is kept on the customer record
+// (publishedSnapshot) and only moved forward once they are out. Changes are
+// diffed against it rather than against the record a sync replaced, so if
+// publishing fails, the retried sync publishes the same changes again.
+import { publishEvent } from '../shared/event-bus';
+import type { Entitlements } from '../entitlements/entitlements';
+import type { CustomerRecord } from '../shared/customer-repository';
+import type { EffectiveSubscriptionData } from './subscription-data';
+
+export type SubscriptionChangeType =
+  | 'subscription.activated'
+  | 'subscription.canceled'
+  | 'subscription.status_changed'
+  | 'subscription.cancel_scheduled'
+  | 'subscription.cancel_unscheduled'
+  | 'plan.changed'
+  | 'payment_method.updated'
+  | 'entitlements.changed';
+
+export type SubscriptionSnapshot = Pick<
+  EffectiveSubscriptionData,
+  | 'subscriptionId'
+  | 'status'
+  | 'priceId'
+  | 'currentPeriodEnd'
+  | 'cancelAtPeriodEnd'
+  | 'trialEnd'
+  | 'paymentMethod'
+> & {
+  accessGranted: boolean;
+  entitlements: Entitlements;
+};
+
+const activeStatuses = ['active', 'trialing'];
+const endedStatuses = ['canceled', 'incomplete_expired', 'none'];
+
+// Builds a snapshot from a stored customer record (which may predate any sync)
+export function toSnapshot(record: Partial<CustomerRecord> | undefined): SubscriptionSnapshot {
+  return {
+    subscriptionId: record?.subscriptionId ?? null,
+    status: record?.status ?? 'none',
+    priceId: record?.priceId ?? null,
+    currentPeriodEnd: record?.currentPeriodEnd ?? null,
+    cancelAtPeriodEnd: record?.cancelAtPeriodEnd ?? false,
+    trialEnd: record?.trialEnd ?? null,
+    paymentMethod: record?.paymentMethod ?? null,
+    accessGranted: record?.accessGranted ?? false,
+    entitlements: record?.entitlements ?? { features: [], limits: {} },
+  };
+}
+
+// Falls back to the stored record for records without a publishedSnapshot yet
+export function lastPublishedSnapshot(record: CustomerRecord | undefined): SubscriptionSnapshot {
+  return record?.publishedSnapshot ?? toSnapshot(record);
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function diffSnapshots(
+  before: SubscriptionSnapshot,
+  after: SubscriptionSnapshot
+): SubscriptionChangeType[] {
+  const changes: SubscriptionChangeType[] = [];
+
+  if (before.status !== after.status) {
+    if (activeStatuses.includes(after.status) && !activeStatuses.includes(before.status)) {
+      changes.push('subscription.activated');
+    } else if (endedStatuses.includes(after.status) && !endedStatuses.includes(before.status)) {
+      changes.push('subscription.canceled');
+    } else {
+      changes.push('subscription.status_changed');
+    }
+  }
+
+  // Only for the same subscription; a new subscription is covered by the status events
+  if (
+    before.subscriptionId === after.subscriptionId &&
+    before.cancelAtPeriodEnd !== after.cancelAtPeriodEnd
+  ) {
+    changes.push(
+      after.cancelAtPeriodEnd ? 'subscription.cancel_scheduled' : 'subscription.cancel_unscheduled'
+    );
+  }
+
+  if (before.priceId && after.priceId && before.priceId !== after.priceId) {
+    changes.push('plan.changed');
+  }
+
+  if (after.paymentMethod && !sameJson(before.paymentMethod, after.paymentMethod)) {
+    changes.push('payment_method.updated');
+  }
+
+  if (!sameJson(before.entitlements, after.entitlements)) {
+    changes.push('entitlements.changed');
+  }
+
+  return changes;
+}
+
+export async function publishSubscriptionChanges(
+  context: { userId: string; stripeCustomerId: string; eventId?: string },
+  before: SubscriptionSnapshot,
+  after: SubscriptionSnapshot
+): Promise<SubscriptionChangeType[]> {
+  const changes = diffSnapshots(before, after);
+
+  for (const change of changes) {
+    await publishEvent(change, {
+      ...context,
+      // Every event of one sync shares the same before/after pair
+      changes,
+      before,
+      after,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,51 @@
+// sync-rate-limit.ts
+// Users can trigger a sync from the app (POST /subscription/sync). Each one calls
+// Stripe, so a user gets at most one every SYNC_RATE_LIMIT_SECONDS. The time of the
+// last one is kept on the customer record.
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { dynamoClient } from "../shared/clients";
+import { getCustomer } from "../shared/customer-repository";
+
+const DEFAULT_INTERVAL_SECONDS = 10;
+
+export type SyncClaim = { allowed: true } | { allowed: false; retryAfterSeconds: number };
+
+function intervalMilliseconds(): number {
+  return Number(process.env.SYNC_RATE_LIMIT_SECONDS ?? DEFAULT_INTERVAL_SECONDS) * 1000;
+}
+
+/**
+ * Records a user-triggered sync unless the user had one within the interval.
+ * Users without a customer record are let through; the sync itself rejects them.
+ */
+export async function claimUserSync(userId: string, now = Date.now()): Promise<SyncClaim> {
+  const interval = intervalMilliseconds();
+  try {
+    await dynamoClient().send(
+      new UpdateCommand({
+        TableName: process.env.CUSTOMER_TABLE!,
+        Key: { userId },
+        UpdateExpression: "SET #lastUserSyncAt = :now",
+        ConditionExpression:
+          "attribute_exists(#userId) AND (attribute_not_exists(#lastUserSyncAt) OR #lastUserSyncAt <= :cutoff)",
+        ExpressionAttributeNames: { "#userId": "userId", "#lastUserSyncAt": "lastUserSyncAt" },
+        ExpressionAttributeValues: { ":now": now, ":cutoff": now - interval },
+      })
+    );
+    return { allowed: true };
+  } catch (error) {
+    if (!(error instanceof ConditionalCheckFailedException)) {
+      throw error;
+    }
+  }
+
+  const customer = await getCustomer(userId);
+  if (!customer?.lastUserSyncAt) {
+    return { allowed: true };
+  }
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.max(1, Math.ceil((customer.lastUserSyncAt + interval - now) / 1000)),
+  };
+}
@@ -1,52 +1,362 @@
 // sync-stripe-data.ts
 import { Stripe } from 'stripe';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { 
-  DynamoDBDocumentClient, 
-  QueryCommand,
-  PutCommand, 
-  GetCommand
-} from '@aws-sdk/lib-dynamodb';
-import type { Handler } from 'aws-lambda';
-import { CognitoIdentityProviderClient,
-  AdminUpdateUserAttributesCommand
-   } from '@aws-sdk/client-cognito-identity-provider';
-
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
-const client = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(client);
-const cognito = new CognitoIdentityProviderClient({});
-const CUSTOMER_TABLE = (process.env.CUSTOMER_TABLE as string);
+import type {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Handler,
+  SQSBatchItemFailure,
+  SQSBatchResponse,
+  SQSEvent,
+  SQSRecord,
+} from 'aws-lambda';
+import { ChangeMessageVisibilityCommand } from '@aws-sdk/client-sqs';
+import { AdminUpdateUserAttributesCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { markEventStatus } from '../shared/event-ledger';
+import { parseWebhookQueueMessage } from '../shared/webhook-queue';
+import { listPurchases } from '../shared/purchases';
+import {
+  CustomerRecord,
+  findCustomerByStripeId,
+  getCustomer,
+  updateCustomer,
+} from '../shared/customer-repository';
+import { updateFields, UpdateResult } from '../shared/dynamo-update';
+import { DunningState, readDunningState } from '../dunning/dunning-state';
+import {
+  EntitlementSource,
+  Entitlements,
+  hasEntitlements,
+  parseEntitlementConfig,
+  resolveEntitlements,
+} from '../entitlements/entitlements';
+import {
+  lastPublishedSnapshot,
+  publishSubscriptionChanges,
+  toSnapshot,
+} from './subscription-events';
+import { handleWebhookEvent, retrieveStripeEvent } from './webhook-event-handlers';
+import {
+  accessGrantingStatuses,
+  buildSubscriptionData,
+  StripeSubscriptionData,
+  SubscriptionData,
+} from './subscription-data';
+import { claimUserSync } from './sync-rate-limit';
+import { cognitoClient, loadStripeClient, sqsClient, stripeClient } from '../shared/clients';
+import { corsHeaders } from '../shared/cors';
+import { addLogContext, logger, resetLogContext } from '../shared/logger';
+import { putMetric } from '../shared/metrics';
+
+const SUBSCRIPTIONS_TABLE = (process.env.SUBSCRIPTIONS_TABLE as string);
+const ENTITLEMENT_CONFIG = parseEntitlementConfig(process.env.ENTITLEMENTS_CONFIG);
+const WEBHOOK_QUEUE_URL = (process.env.WEBHOOK_QUEUE_URL as string);
+
+// Failed queue messages are retried after 30s, 60s, 120s, ... (capped), until the
+// queue's maxReceiveCount moves them to the dead-letter queue
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 15 * 60;
 
 // Types
-type SyncStripeEvent = {
+// Internal invokes (dunning, reconciliation, replays). They can name any customer,
+// so only our own functions and scripts may invoke the function directly.
+export type SyncStripeEvent = {
   stripeCustomerId?: string;
   userId?: string;
+  // Set when the sync was triggered by a webhook event (or a replay of one)
+  eventId?: string;
+  // Passed on by the caller so its logs and ours can be joined
+  correlationId?: string;
 };
 
-type StripeSubscriptionData = {
-  subscriptionId: string | null;
-  status: Stripe.Subscription.Status | 'none';
-  priceId: string | null;
-  currentPeriodEnd: number | null;
-  currentPeriodStart: number | null;
-  cancelAtPeriodEnd: boolean;
-  paymentMethod: {
-    brand: string | null;
-    last4: string | null;
-  } | null;
-};
-
-
-type LambdaResponse = {
+export type LambdaResponse = {
   statusCode: number;
   data?: StripeSubscriptionData;
+  // True when a newer sync had already been written and this one was discarded
+  stale?: boolean;
   error?: string;
 };
 
-export const handler: Handler<SyncStripeEvent, LambdaResponse> = async (event) => {
-  console.log('Starting stripe data sync for customer:', event.stripeCustomerId);
+type Access = {
+  accessGranted: boolean;
+  entitlements: Entitlements;
+};
+
+// Past-due subscriptions keep granting access only while the dunning grace period runs,
+// paused ones only until the pause starts
+function grantsAccess(subscription: SubscriptionData, dunning: DunningState | null): boolean {
+  if (subscription.status === 'past_due' && dunning?.status === 'expired') {
+    return false;
+  }
+  if (subscription.pause && Date.now() / 1000 >= subscription.pause.startsAt) {
+    return false;
+  }
+  return accessGrantingStatuses.includes(subscription.status);
+}
+
+// Resolves entitlements from every subscription that currently grants access,
+// plus the user's one-time purchases. A purchase only counts towards access if
+// its plan grants entitlements (e.g. a lifetime plan, but not credits).
+async function resolveAccess(
+  userId: string,
+  subscriptions: SubscriptionData[],
+  dunning: DunningState | null
+): Promise<Access> {
+  const purchases = await listPurchases(userId);
+  const subscriptionSources: EntitlementSource[] = subscriptions
+    .filter((subscription) => grantsAccess(subscription, dunning))
+    .flatMap((subscription) => subscription.items);
+  const purchaseSources: EntitlementSource[] = purchases.filter(
+    (purchase) => purchase.status === 'paid'
+  );
+  const sources = [...subscriptionSources, ...purchaseSources];
+
+  const productIds = [...new Set(sources.map((source) => source.productId))];
+  const products = await Promise.all(productIds.map((id) => stripeClient().products.retrieve(id)));
+  const productMetadata = Object.fromEntries(
+    products.map((product) => [product.id, product.metadata])
+  );
+
+  return {
+    accessGranted:
+      subscriptionSources.length > 0 ||
+      purchaseSources.some((source) =>
+        hasEntitlements(resolveEntitlements(ENTITLEMENT_CONFIG, [source], productMetadata))
+      ),
+    entitlements: resolveEntitlements(ENTITLEMENT_CONFIG, sources, productMetadata),
+  };
+}
+
+// Writes only the attributes sync owns (leaving e.g. email/createdAt from checkout alone),
+// and only if the stored data was fetched from Stripe before ours was
+function writeCustomerRecord(
+  existingRecord: CustomerRecord | null,
+  userId: string,
+  stripeCustomerId: string,
+  subData: StripeSubscriptionData,
+  access: Access,
+  syncVersion: number
+): Promise<UpdateResult<CustomerRecord>> {
+  const { subscriptions, ...effective } = subData;
+  return updateCustomer(
+    userId,
+    {
+      ...effective,
+      ...access,
+      stripeCustomerId,
+      subscriptionCount: subscriptions.length,
+      // Records from before publishedSnapshot start from what they stored
+      ...(!existingRecord?.publishedSnapshot && {
+        publishedSnapshot: toSnapshot(existingRecord ?? undefined),
+      }),
+    },
+    { syncVersion }
+  );
+}
+
+// Every subscription is stored as its own row so a customer's subscriptions can be queried
+async function writeSubscriptions(
+  userId: string,
+  stripeCustomerId: string,
+  subscriptions: SubscriptionData[],
+  syncVersion: number
+): Promise<void> {
+  await Promise.all(
+    subscriptions.map(({ subscriptionId, ...fields }) =>
+      updateFields(
+        SUBSCRIPTIONS_TABLE,
+        { userId, subscriptionId },
+        { ...fields, stripeCustomerId },
+        { syncVersion }
+      )
+    )
+  );
+}
+
+// Runs one webhook event: its side effects, then a resync of the customer.
+// The outcome is tracked in the event ledger.
+async function processWebhookEvent(event: {
+  eventId: string;
+  stripeCustomerId: string;
+  correlationId?: string;
+}): Promise<LambdaResponse> {
+  await markEventStatus(event.eventId, 'processing');
+
+  let result: LambdaResponse;
+  try {
+    const stripeEvent = await retrieveStripeEvent(event.eventId);
+    if (stripeEvent) {
+      await handleWebhookEvent(stripeEvent, event.stripeCustomerId);
+    } else {
+      logger.warn('Event no longer available from Stripe, only resyncing');
+    }
+    result = await syncStripeData(event);
+  } catch (error) {
+    logger.error('Failed to handle webhook event', { error });
+    result = {
+      statusCode: error instanceof Stripe.errors.StripeError ? 502 : 500,
+      error: error instanceof Error ? error.message : 'Failed to handle event'
+    };
+  }
+
+  await markEventStatus(
+    event.eventId,
+    result.statusCode === 200 ? 'processed' : 'failed',
+    result.error
+  );
+  return result;
+}
+
+function recordSyncOutcome(result: LambdaResponse): void {
+  if (result.statusCode !== 200) {
+    putMetric('SyncFailed', 1, { statusCode: result.statusCode, error: result.error });
+  } else {
+    putMetric(result.stale ? 'SyncStale' : 'SyncSucceeded');
+  }
+}
+
+// Exponential backoff with jitter, based on how often SQS has delivered the message
+function retryDelaySeconds(receiveCount: number): number {
+  const delay = Math.min(RETRY_BASE_SECONDS * 2 ** (receiveCount - 1), RETRY_MAX_SECONDS);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+async function delayRetry(record: SQSRecord): Promise<void> {
+  const receiveCount = Number(record.attributes.ApproximateReceiveCount) || 1;
+  try {
+    await sqsClient().send(new ChangeMessageVisibilityCommand({
+      QueueUrl: WEBHOOK_QUEUE_URL,
+      ReceiptHandle: record.receiptHandle,
+      VisibilityTimeout: retryDelaySeconds(receiveCount)
+    }));
+  } catch (error) {
+    // Not fatal: the message then reappears after the queue's visibility timeout
+    logger.warn('Failed to delay retry of message', { messageId: record.messageId, error });
+  }
+}
+
+// Processes a batch from the webhook queue. Only the records that failed are
+// reported back, so the rest of the batch is not redelivered.
+async function processQueueBatch(event: SQSEvent, requestId: string): Promise<SQSBatchResponse> {
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  // One record at a time to stay well inside Stripe and Cognito rate limits
+  for (const record of event.Records) {
+    resetLogContext({ requestId, correlationId: record.messageId });
+    let result: LambdaResponse;
+    try {
+      const message = parseWebhookQueueMessage(record.body);
+      resetLogContext({
+        requestId,
+        correlationId: message.correlationId ?? message.eventId,
+        stripeEventId: message.eventId,
+        stripeCustomerId: message.stripeCustomerId,
+      });
+      result = await processWebhookEvent(message);
+    } catch (error) {
+      logger.error('Failed to process queue message', { messageId: record.messageId, error });
+      result = { statusCode: 500, error: 'Failed to process queue message' };
+    }
+    recordSyncOutcome(result);
+
+    if (result.statusCode !== 200) {
+      logger.warn('Queue message will be retried', {
+        messageId: record.messageId,
+        receiveCount: record.attributes.ApproximateReceiveCount,
+        error: result.error
+      });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+      await delayRetry(record);
+    }
+  }
+
+  return { batchItemFailures };
+}
+
+function isApiGatewayEvent(event: object): event is APIGatewayProxyEvent {
+  return 'httpMethod' in event && 'requestContext' in event;
+}
+
+// POST /subscription/sync. The user is taken from the authorizer's claims only;
+// nothing in the request can choose whom to sync.
+async function handleSyncRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const userId: string | undefined = event.requestContext.authorizer?.claims?.sub;
+  resetLogContext({
+    requestId: event.requestContext.requestId,
+    correlationId: event.requestContext.requestId,
+    userId,
+  });
+  logger.info('Received sync request');
+
+  const headers = {
+    'Content-Type': 'application/json',
+    ...corsHeaders(event),
+  };
+
+  if (!userId) {
+    logger.warn('No Cognito sub found in request');
+    return {
+      statusCode: 401,
+      headers,
+      body: JSON.stringify({ error: 'Unauthorized - No user ID found' })
+    };
+  }
+
+  const claim = await claimUserSync(userId);
+  if (!claim.allowed) {
+    logger.info('Sync request rate limited', { retryAfterSeconds: claim.retryAfterSeconds });
+    putMetric('SyncRateLimited');
+    return {
+      statusCode: 429,
+      headers: { ...headers, 'Retry-After': String(claim.retryAfterSeconds) },
+      body: JSON.stringify({ error: 'Too many sync requests', retryAfterSeconds: claim.retryAfterSeconds })
+    };
+  }
+
+  const result = await syncStripeData({ userId });
+  recordSyncOutcome(result);
+  return {
+    statusCode: result.statusCode,
+    headers,
+    body: JSON.stringify(result)
+  };
+}
+
+export const handler: Handler<
+  SyncStripeEvent | SQSEvent | APIGatewayProxyEvent,
+  LambdaResponse | SQSBatchResponse | APIGatewayProxyResult
+> = async (event, context) => {
+  await loadStripeClient();
+
+  // Webhook events arrive in batches from the queue
+  if ('Records' in event) {
+    return processQueueBatch(event, context.awsRequestId);
+  }
+
+  if (isApiGatewayEvent(event)) {
+    return handleSyncRequest(event);
+  }
+
+  resetLogContext({
+    requestId: context.awsRequestId,
+    correlationId: event.correlationId ?? event.eventId ?? context.awsRequestId,
+    userId: event.userId,
+    stripeCustomerId: event.stripeCustomerId,
+    stripeEventId: event.eventId,
+  });
+
+  // Replays of a recorded event are processed exactly like queued ones
+  const result = event.eventId && event.stripeCustomerId
+    ? await processWebhookEvent({
+        eventId: event.eventId,
+        stripeCustomerId: event.stripeCustomerId
+      })
+    : await syncStripeData(event);
+  recordSyncOutcome(result);
+  return result;
+};
+
+const syncStripeData = async (event: SyncStripeEvent): Promise<LambdaResponse> => {
+  logger.info('Starting stripe data sync for customer');
   
   try {
     let { stripeCustomerId, userId } = event;
@@ -55,112 +365,94 @@ export const handler: Handler<SyncStripeEvent, LambdaResponse> = async (event) =
     // If this is called from the frontend, it would be the userId
     // If neither of these are included, we can't proceed
     if (!stripeCustomerId && !userId) {
-      console.error('Cognito user ID or Stripe customer ID is required');
+      logger.error('Cognito user ID or Stripe customer ID is required');
       return {
         statusCode: 400,
         error: 'Customer ID is required'
       };
     }
 
-    console.log('Querying DynamoDB for existing user record');
+    logger.info('Querying DynamoDB for existing user record');
     let existingUserId = userId;
+    let existingRecord: CustomerRecord | null;
     if (userId) {
       // Fetch the stripeCustomerId from the DynamoDB table
-      const { Item } = await docClient.send(new GetCommand({
-        TableName: CUSTOMER_TABLE,
-        Key: {
-          userId: userId
-        }
-      }));
+      existingRecord = await getCustomer(userId);
 
-      if (!Item?.stripeCustomerId) {
-        console.error('No Stripe customer ID found for user:', userId);
+      if (!existingRecord?.stripeCustomerId) {
+        logger.error('No Stripe customer ID found for user');
         return {
           statusCode: 404,
           error: 'No Stripe customer ID found'
         };
       }
       // Set the stripe customer ID to the one found in the database
-      stripeCustomerId = Item.stripeCustomerId;
+      stripeCustomerId = existingRecord.stripeCustomerId;
     } else {
-      const { Items } = await docClient.send(new QueryCommand({
-        TableName: CUSTOMER_TABLE,
-        IndexName: 'stripeCustomerId-index',
-        KeyConditionExpression: 'stripeCustomerId = :stripeId',
-        ExpressionAttributeValues: {
-          ':stripeId': stripeCustomerId
-        }
-      }));
-      existingUserId = Items?.[0]?.userId;
+      existingRecord = await findCustomerByStripeId(stripeCustomerId!);
+      existingUserId = existingRecord?.userId;
     }
 
     if (!existingUserId) {
-      console.error('No user record found for Stripe customer:', stripeCustomerId);
+      logger.error('No user record found for Stripe customer');
       return {
         statusCode: 404,
         error: 'No user found for this Stripe customer'
       };
     }
+    addLogContext({ userId: existingUserId, stripeCustomerId });
 
     try {
-      console.log('Fetching subscription data from Stripe');
-      const subscriptions = await stripe.subscriptions.list({
-        customer: stripeCustomerId,
-        limit: 1,
-        status: 'all',
-        expand: ['data.default_payment_method'],
+      logger.info('Fetching subscription data from Stripe');
+      const syncVersion = Date.now();
+      const subscriptions = await stripeClient().subscriptions
+        .list({
+          customer: stripeCustomerId,
+          limit: 100,
+          status: 'all',
+          expand: ['data.default_payment_method', 'data.discounts'],
+        })
+        .autoPagingToArray({ limit: 1000 });
+
+      logger.info('Stripe subscriptions found', { count: subscriptions.length });
+      const subData = buildSubscriptionData(subscriptions);
+      logger.info('Effective subscription', {
+        subscriptionId: subData.subscriptionId,
+        status: subData.status,
       });
+      const dunning = readDunningState(existingRecord);
+      const access = await resolveAccess(existingUserId, subData.subscriptions, dunning);
+      logger.info('Resolved access', { ...access, dunningStatus: dunning?.status ?? null });
 
-      console.log('Stripe subscriptions found:', subscriptions.data.length);
-      let subData: StripeSubscriptionData;
-
-      if (subscriptions.data.length === 0) {
-        console.log('No active subscriptions found');
-        subData = {
-          subscriptionId: null,
-          status: 'none',
-          priceId: null,
-          currentPeriodEnd: null,
-          currentPeriodStart: null,
-          cancelAtPeriodEnd: false,
-          paymentMethod: null,
-        };
-      } else {
-        console.log('Processing subscription:', subscriptions.data[0].id);
-        const subscription = subscriptions.data[0];
-        const paymentMethod = subscription.default_payment_method;
-
-        subData = {
-          subscriptionId: subscription.id,
-          status: subscription.status,
-          priceId: subscription.items.data[0].price.id,
-          currentPeriodEnd: subscription.current_period_end,
-          currentPeriodStart: subscription.current_period_start,
-          cancelAtPeriodEnd: subscription.cancel_at_period_end,
-          paymentMethod:
-            paymentMethod && typeof paymentMethod !== 'string'
-              ? {
-                  brand: paymentMethod.card?.brand ?? null,
-                  last4: paymentMethod.card?.last4 ?? null,
-                }
-              : null,
+      logger.info('Updating DynamoDB with latest subscription data');
+      const result = await writeCustomerRecord(
+        existingRecord,
+        existingUserId,
+        stripeCustomerId!,
+        subData,
+        access,
+        syncVersion
+      );
+
+      if (!result.updated) {
+        // A concurrent sync already stored fresher data (and updated Cognito)
+        logger.info('Skipping stale sync for user');
+        return {
+          statusCode: 200,
+          data: subData,
+          stale: true,
         };
       }
-
-      console.log('Updating DynamoDB with latest subscription data');
-      await docClient.send(new PutCommand({
-        TableName: CUSTOMER_TABLE,
-        Item: {
-          userId: existingUserId,        // Preserve existing userId
-          stripeCustomerId: stripeCustomerId,  // GSI
-          ...subData,
-          updatedAt: new Date().toISOString(),
-        },
-      }));
+      await writeSubscriptions(
+        existingUserId,
+        stripeCustomerId!,
+        subData.subscriptions,
+        syncVersion
+      );
 
       // Update the Cognito attribute with the latest subscription data
-      console.log('Updating Cognito user attributes');
-      await cognito.send(new AdminUpdateUserAttributesCommand({
+      logger.info('Updating Cognito user attributes');
+      await cognitoClient().send(new AdminUpdateUserAttributesCommand({
         UserPoolId: process.env.COGNITO_USER_POOL_ID!,
         Username: existingUserId,
         UserAttributes: [
@@ -175,24 +467,58 @@ export const handler: Handler<SyncStripeEvent, LambdaResponse> = async (event) =
           {
             Name: 'custom:cancelAtPeriodEnd',
             Value: subData.cancelAtPeriodEnd.toString()
+          },
+          {
+            Name: 'custom:trialStart',
+            Value: subData.trialStart?.toString() || ''
+          },
+          {
+            Name: 'custom:trialEnd',
+            Value: subData.trialEnd?.toString() || ''
+          },
+          {
+            // The one answer clients should use for "can this user use the product"
+            Name: 'custom:accessGranted',
+            Value: access.accessGranted.toString()
           }
         ]
       }));
-    
-      console.log('Sync completed successfully');
+
+      // Tell other services what changed since the last published state
+      const snapshot = toSnapshot({ ...subData, ...access });
+      try {
+        const changes = await publishSubscriptionChanges(
+          { userId: existingUserId, stripeCustomerId: stripeCustomerId!, eventId: event.eventId },
+          lastPublishedSnapshot(result.previous),
+          snapshot
+        );
+        logger.info('Published subscription changes', { changes });
+      } catch (publishError) {
+        // The record is stored, but the changes stay pending until a retry publishes them
+        logger.error('Failed to publish subscription changes', { error: publishError });
+        putMetric('SubscriptionEventsPublishFailed');
+        return {
+          statusCode: 500,
+          error: 'Failed to publish subscription changes'
+        };
+      }
+      // Skipped if a newer sync has written the record since; that one publishes
+      await updateCustomer(existingUserId, { publishedSnapshot: snapshot }, { atSyncVersion: syncVersion });
+
+      logger.info('Sync completed successfully');
       return {
         statusCode: 200,
         data: subData,
       };
     } catch (stripeError) {
-      console.error('Stripe API error:', stripeError);
+      logger.error('Stripe API error', { error: stripeError });
       return {
         statusCode: 502, // Bad Gateway for upstream service error
         error: 'Failed to fetch Stripe data'
       };
     }
   } catch (error) {
-    console.error('Sync error:', {
+    logger.error('Sync error', {
       error: error instanceof Error ? error.message : 'Unknown error',
       customerId: event.stripeCustomerId
     });
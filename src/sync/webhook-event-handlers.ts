@@ -0,0 +1,223 @@
+// webhook-event-handlers.ts
+// Event-specific work done for a webhook event before the customer is resynced:
+// purchases, the invoice cache, dunning state and notifications. Runs in the queue
+// consumer, so a failure here is retried along with the sync.
+import { Stripe } from 'stripe';
+import { publishEvent } from '../shared/event-bus';
+import { recordPurchase } from '../shared/purchases';
+import { cacheInvoice, toInvoiceRecord } from '../invoices/invoice-cache';
+import {
+  clearDunning,
+  isNewerThanDunning,
+  nextFailureState,
+  readDunningState,
+  recordPaymentFailure,
+} from '../dunning/dunning-state';
+import { findCustomerByStripeId, updateCustomer } from '../shared/customer-repository';
+import { stripeClient } from '../shared/clients';
+import { logger } from '../shared/logger';
+
+async function findUserId(stripeCustomerId: string): Promise<string | null> {
+  const customer = await findCustomerByStripeId(stripeCustomerId);
+  return customer?.userId ?? null;
+}
+
+// Completed one-time checkouts are written to the purchases ledger. Delayed payment
+// methods complete the session unpaid and send async_payment_succeeded later.
+async function recordCompletedPurchase(
+  session: Stripe.Checkout.Session,
+  stripeCustomerId: string
+): Promise<void> {
+  if (session.mode !== 'payment' || session.payment_status !== 'paid') {
+    return;
+  }
+
+  const userId = session.metadata?.userId ?? (await findUserId(stripeCustomerId));
+  if (!userId) {
+    throw new Error(`No user found for purchase ${session.id}`);
+  }
+
+  // Line items are not included in the event payload
+  const { data: lineItems } = await stripeClient().checkout.sessions.listLineItems(session.id);
+  const price = lineItems[0]?.price;
+  if (!price) {
+    throw new Error(`No line items found for purchase ${session.id}`);
+  }
+
+  const recorded = await recordPurchase({
+    userId,
+    purchaseId: session.id,
+    stripeCustomerId,
+    paymentIntentId:
+      typeof session.payment_intent === 'string'
+        ? session.payment_intent
+        : session.payment_intent?.id ?? null,
+    plan: session.metadata?.plan ?? null,
+    priceId: price.id,
+    productId: typeof price.product === 'string' ? price.product : price.product.id,
+    quantity: lineItems[0].quantity ?? 1,
+    amountTotal: session.amount_total,
+    currency: session.currency,
+    status: 'paid',
+    purchasedAt: new Date(session.created * 1000).toISOString(),
+  });
+  logger.info(recorded ? 'Recorded purchase' : 'Purchase already recorded', { sessionId: session.id });
+}
+
+// Keeps the per-user invoice table behind GET /subscription/invoices current
+async function updateInvoiceCache(
+  invoice: Stripe.Invoice,
+  eventCreated: number,
+  stripeCustomerId: string
+): Promise<void> {
+  const userId = await findUserId(stripeCustomerId);
+  if (!userId) {
+    // Sync reports the missing user; there is nobody to show the invoice to
+    logger.warn('No user found for invoice', { invoiceId: invoice.id });
+    return;
+  }
+
+  const cached = await cacheInvoice(toInvoiceRecord(invoice, userId, eventCreated));
+  if (!cached) {
+    logger.info('Skipped out-of-date invoice update', { invoiceId: invoice.id });
+  }
+}
+
+// Failed subscription payments open (or extend) the dunning grace period;
+// a paid invoice closes it. Sync reads the state when deciding access. As with
+// the trial end notification, the notification is published before the state
+// is written: if publishing fails, the retry finds the event not yet applied and
+// publishes it then. Once the state is written, a retry skips both.
+async function updateDunningState(
+  stripeEvent: Stripe.InvoicePaidEvent | Stripe.InvoicePaymentFailedEvent,
+  stripeCustomerId: string
+): Promise<void> {
+  const invoice = stripeEvent.data.object;
+  if (!invoice.subscription) {
+    return;
+  }
+
+  const customer = await findCustomerByStripeId(stripeCustomerId);
+  if (!customer) {
+    return;
+  }
+  if (!isNewerThanDunning(customer, stripeEvent.created)) {
+    logger.info('Skipped invoice event already applied or out of date', { invoiceId: invoice.id });
+    return;
+  }
+
+  const { userId } = customer;
+  const current = readDunningState(customer);
+  if (stripeEvent.type === 'invoice.payment_failed') {
+    const dunning = nextFailureState(current, invoice.id, stripeEvent.created);
+    await publishEvent('dunning.payment_failed', {
+      eventId: stripeEvent.id,
+      userId,
+      stripeCustomerId,
+      invoiceId: invoice.id,
+      failureCount: dunning.failureCount,
+      graceEndsAt: dunning.graceEndsAt,
+      hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+    });
+    const recorded = await recordPaymentFailure(userId, invoice.id, stripeEvent.created);
+    if (!recorded) {
+      logger.warn('Dunning state changed before the payment failure was recorded', { invoiceId: invoice.id });
+      return;
+    }
+    logger.info('Recorded payment failure', { userId, failureCount: recorded.failureCount });
+    return;
+  }
+
+  // The payment is recorded even outside dunning, so older failures delivered late are ignored
+  if (current) {
+    await publishEvent('dunning.recovered', {
+      eventId: stripeEvent.id,
+      userId,
+      stripeCustomerId,
+      invoiceId: invoice.id,
+      failureCount: current.failureCount,
+      wasExpired: current.status === 'expired',
+    });
+  }
+  if (await clearDunning(userId, stripeEvent.created)) {
+    logger.info('Payment recovered, cleared dunning state', { userId });
+  }
+}
+
+// Stripe sends trial_will_end three days before a trial ends. Besides the usual
+// resync we publish a distinct notification so the app can nudge the user. The
+// event is noted on the customer record once published, so a retry (e.g. after
+// the sync failed) does not publish it again.
+async function notifyTrialWillEnd(
+  stripeEvent: Stripe.CustomerSubscriptionTrialWillEndEvent,
+  stripeCustomerId: string
+): Promise<void> {
+  const customer = await findCustomerByStripeId(stripeCustomerId);
+  if (customer?.trialWillEndEventId === stripeEvent.id) {
+    logger.info('Trial end notification already published');
+    return;
+  }
+
+  const subscription = stripeEvent.data.object;
+  await publishEvent('subscription.trial_will_end', {
+    eventId: stripeEvent.id,
+    userId: customer?.userId ?? null,
+    stripeCustomerId,
+    subscriptionId: subscription.id,
+    trialEnd: subscription.trial_end,
+    // Trials started without a card are canceled at trial end unless one is added
+    hasPaymentMethod: !!subscription.default_payment_method,
+  });
+  if (customer) {
+    await updateCustomer(customer.userId, { trialWillEndEventId: stripeEvent.id });
+  }
+}
+
+/**
+ * Loads the event from Stripe. Returns null once Stripe no longer has it
+ * (events are kept for 30 days), in which case only the resync can be replayed.
+ */
+export async function retrieveStripeEvent(eventId: string): Promise<Stripe.Event | null> {
+  try {
+    return await stripeClient().events.retrieve(eventId);
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Applies the event-specific side effects. A failure fails the queue message,
+ * which is retried with the sync, so applying an event again must be safe:
+ * purchases, cached invoices and dunning changes are conditional writes that
+ * skip what was already applied (or is out of date), and notifications are
+ * published before the write that marks them sent, so a failed publish is
+ * retried rather than lost. A notification can therefore go out twice (the
+ * write failed after it was published, and EventBridge itself delivers at
+ * least once), so every notification carries the Stripe event id.
+ */
+export async function handleWebhookEvent(
+  stripeEvent: Stripe.Event,
+  stripeCustomerId: string
+): Promise<void> {
+  switch (stripeEvent.type) {
+    case 'customer.subscription.trial_will_end':
+      await notifyTrialWillEnd(stripeEvent, stripeCustomerId);
+      break;
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded':
+      // Recorded before the sync so the purchase is included in its entitlements
+      await recordCompletedPurchase(stripeEvent.data.object, stripeCustomerId);
+      break;
+    case 'invoice.paid':
+    case 'invoice.payment_failed':
+      await updateInvoiceCache(stripeEvent.data.object, stripeEvent.created, stripeCustomerId);
+      await updateDunningState(stripeEvent, stripeCustomerId);
+      break;
+    case 'invoice.marked_uncollectible':
+      await updateInvoiceCache(stripeEvent.data.object, stripeEvent.created, stripeCustomerId);
+      break;
+  }
+}
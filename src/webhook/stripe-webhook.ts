@@ -1,17 +1,15 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import {
-  LambdaClient,
-  InvokeCommand,
-  InvokeCommandInput,
-} from "@aws-sdk/client-lambda";
 import Stripe from "stripe";
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
-const lambdaClient = new LambdaClient({});
+import { claimEvent, markEventQueued, markEventStatus } from "../shared/event-ledger";
+import { enqueueWebhookEvent } from "../shared/webhook-queue";
+import { addLogContext, logger, resetLogContext } from "../shared/logger";
+import { putMetric } from "../shared/metrics";
+import { getWebhookSecrets } from "../shared/secrets";
 
 // Events we care about (from the guide)
 const allowedEvents: Stripe.Event.Type[] = [
   "checkout.session.completed",
+  "checkout.session.async_payment_succeeded",
   "customer.subscription.created",
   "customer.subscription.updated",
   "customer.subscription.deleted",
@@ -31,13 +29,36 @@ const allowedEvents: Stripe.Event.Type[] = [
   "payment_intent.canceled",
 ];
 
+// Any active signing secret is accepted, so an endpoint secret can be rolled in
+// Stripe while the old one is still configured (see getWebhookSecrets)
+function constructEvent(payload: string, signature: string, secrets: string[]): Stripe.Event {
+  let lastError: unknown;
+  for (const [index, secret] of secrets.entries()) {
+    try {
+      const stripeEvent = Stripe.webhooks.constructEvent(payload, signature, secret);
+      logger.debug("Webhook signature verified", { secretIndex: index, secretCount: secrets.length });
+      return stripeEvent;
+    } catch (error) {
+      if (!(error instanceof Stripe.errors.StripeSignatureVerificationError)) {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
 export const handler = async (
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> => {
+  const requestId = event.requestContext.requestId;
+  resetLogContext({ requestId, correlationId: requestId });
+
   try {
     const signature = event.headers["stripe-signature"];
 
     if (!signature) {
+      putMetric("WebhookSignatureFailed", 1, { reason: "missing" });
       return {
         statusCode: 400,
         headers: {
@@ -48,14 +69,38 @@ export const handler = async (
     }
 
     // Verify webhook signature
-    const stripeEvent = stripe.webhooks.constructEvent(
-      event.body!,
-      signature,
-      process.env.STRIPE_WEBHOOK_SECRET!
+    const stripeEvent = constructEvent(event.body!, signature, await getWebhookSecrets());
+
+    const isAllowed = allowedEvents.includes(stripeEvent.type);
+
+    // Get customerId from event
+    const { customer } = stripeEvent.data.object as {
+      customer?: unknown;
+    };
+    const customerId = typeof customer === "string" ? customer : null;
+    addLogContext({ stripeEventId: stripeEvent.id, stripeCustomerId: customerId ?? undefined });
+    logger.info("Received webhook event", { type: stripeEvent.type });
+
+    // Record the event, skipping anything we have already received. Events we act
+    // on are only marked queued once they are on the queue (see claimEvent).
+    const claimed = await claimEvent(
+      stripeEvent,
+      customerId,
+      isAllowed ? "receiving" : "ignored"
     );
+    if (!claimed) {
+      logger.info("Skipping duplicate webhook event");
+      return {
+        statusCode: 200,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ received: true, duplicate: true }),
+      };
+    }
 
     // Skip if not an event we care about
-    if (!allowedEvents.includes(stripeEvent.type)) {
+    if (!isAllowed) {
       return {
         statusCode: 200,
         headers: {
@@ -65,28 +110,31 @@ export const handler = async (
       };
     }
 
-    // Get customerId from event
-    const { customer: customerId } = stripeEvent.data.object as {
-      customer: string;
-    };
-
-    if (typeof customerId !== "string") {
+    if (!customerId) {
+      await markEventStatus(stripeEvent.id, "failed", "Invalid customer ID in webhook");
       throw new Error("Invalid customer ID in webhook");
     }
 
-    // Prepare the Lambda invoke command
-    const invokeCommand: InvokeCommandInput = {
-      FunctionName: process.env.STRIPE_SYNC_FUNCTION_NAME!,
-      InvocationType: "Event", // async
-      Payload: Buffer.from(
-        JSON.stringify({
-          customerId,
-        })
-      ),
-    };
-
-    // Trigger sync function
-    await lambdaClient.send(new InvokeCommand(invokeCommand));
+    // Hand the event to the sync function through the queue, which retries failures
+    // and dead-letters what keeps failing. If even that fails, the event is left as
+    // failed so Stripe's retry is not treated as a duplicate.
+    try {
+      await enqueueWebhookEvent({
+        eventId: stripeEvent.id,
+        eventType: stripeEvent.type,
+        stripeCustomerId: customerId,
+        correlationId: requestId,
+      });
+    } catch (error) {
+      await markEventStatus(
+        stripeEvent.id,
+        "failed",
+        error instanceof Error ? error.message : "Failed to queue event"
+      );
+      throw error;
+    }
+    // Should this fail, the event stays "receiving" and Stripe's retry queues it again
+    await markEventQueued(stripeEvent.id);
 
     return {
       statusCode: 200,
@@ -96,7 +144,10 @@ export const handler = async (
       body: JSON.stringify({ received: true }),
     };
   } catch (error) {
-    console.error("Webhook error:", error);
+    logger.error("Webhook error", { error });
+    if (error instanceof Stripe.errors.StripeSignatureVerificationError) {
+      putMetric("WebhookSignatureFailed", 1, { reason: "invalid" });
+    }
 
     return {
       statusCode:
@@ -0,0 +1,237 @@
+import { handler as changePlan } from "../src/subscription/change-plan";
+import { handler as previewPlanChange } from "../src/subscription/preview-plan-change";
+import { apiEvent, Fakes, installFakes, metrics, tables, testUser } from "./fakes";
+import { buildSubscription } from "./fakes/stripe";
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+const body = (result: { body: string }) => JSON.parse(result.body);
+
+function subscribe(priceId = "price_monthly") {
+  const subscription = buildSubscription("cus_1", { priceId });
+  fakes.stripe.state.subscriptions.push(subscription);
+  fakes.dynamo.put(tables.customers, {
+    userId: testUser.sub,
+    stripeCustomerId: "cus_1",
+    email: testUser.email,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    subscriptionId: subscription.id,
+    subscriptionStatus: "active",
+  });
+  return subscription;
+}
+
+describe("preview-plan-change", () => {
+  it("returns the prorated amount due now and the next invoice for an upgrade", async () => {
+    const subscription = subscribe();
+
+    const result = await previewPlanChange(apiEvent({ body: { plan: "team", quantity: 2 } }));
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result)).toMatchObject({
+      plan: "team",
+      direction: "upgrade",
+      effective: "now",
+      prorationBehavior: "always_invoice",
+      currency: "usd",
+      amountDueNow: 5000,
+      nextInvoice: { total: 6000, date: subscription.current_period_end },
+    });
+
+    const [params] = fakes.stripe.mock.invoices.createPreview.mock.calls[0];
+    expect(params.subscription_details).toMatchObject({
+      items: [{ id: subscription.items.data[0].id, price: "price_team_monthly", quantity: 2 }],
+      proration_behavior: "always_invoice",
+      proration_date: body(result).prorationDate,
+    });
+    expect(fakes.stripe.mock.subscriptions.update).not.toHaveBeenCalled();
+  });
+
+  it("adds the proration to the next invoice with create_prorations", async () => {
+    subscribe();
+
+    const result = await previewPlanChange(
+      apiEvent({ body: { plan: "team", quantity: 2, prorationBehavior: "create_prorations" } })
+    );
+
+    expect(body(result)).toMatchObject({
+      prorationBehavior: "create_prorations",
+      amountDueNow: 0,
+      nextInvoice: { total: 11000 },
+    });
+    const [params] = fakes.stripe.mock.invoices.createPreview.mock.calls[0];
+    expect(params.subscription_details?.proration_behavior).toBe("create_prorations");
+  });
+
+  it("previews a move to a shorter interval as a downgrade at the end of the period", async () => {
+    subscribe("price_annual");
+
+    const result = await previewPlanChange(apiEvent({ body: { plan: "standard", interval: "month" } }));
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result)).toMatchObject({
+      direction: "downgrade",
+      effective: "period_end",
+      prorationBehavior: "none",
+      amountDueNow: 0,
+      nextInvoice: { total: 1000 },
+    });
+  });
+
+  it("returns 404 for a user without a Stripe customer", async () => {
+    const result = await previewPlanChange(apiEvent({ body: { plan: "team" } }));
+
+    expect(result.statusCode).toBe(404);
+  });
+});
+
+describe("change-plan", () => {
+  it("applies an upgrade immediately and invoices the proration", async () => {
+    const subscription = subscribe();
+
+    const result = await changePlan(apiEvent({ body: { plan: "standard", interval: "year" } }));
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result)).toMatchObject({
+      plan: "standard",
+      direction: "upgrade",
+      effective: "now",
+      subscriptionId: subscription.id,
+      paymentPending: false,
+    });
+    const [id, params] = fakes.stripe.mock.subscriptions.update.mock.calls[0];
+    expect(id).toBe(subscription.id);
+    expect(params).toMatchObject({
+      items: [{ id: subscription.items.data[0].id, price: "price_annual", quantity: 1 }],
+      proration_behavior: "always_invoice",
+      payment_behavior: "pending_if_incomplete",
+    });
+    expect(fakes.stripe.mock.subscriptionSchedules.create).not.toHaveBeenCalled();
+    expect(metrics()).toEqual({ PlanChanged: 1 });
+  });
+
+  it("applies an upgrade with the requested proration behavior", async () => {
+    subscribe();
+
+    const result = await changePlan(
+      apiEvent({ body: { plan: "team", quantity: 2, prorationBehavior: "create_prorations" } })
+    );
+
+    expect(result.statusCode).toBe(200);
+    const [, params] = fakes.stripe.mock.subscriptions.update.mock.calls[0];
+    expect(params).toMatchObject({
+      proration_behavior: "create_prorations",
+      proration_date: expect.any(Number),
+    });
+  });
+
+  it("keeps the seats of a team subscription when only the interval changes", async () => {
+    const subscription = subscribe("price_team_monthly");
+    subscription.items.data[0].quantity = 5;
+
+    const result = await changePlan(apiEvent({ body: { plan: "team", interval: "year" } }));
+
+    expect(result.statusCode).toBe(200);
+    const [, params] = fakes.stripe.mock.subscriptions.update.mock.calls[0];
+    expect(params.items).toEqual([
+      { id: subscription.items.data[0].id, price: "price_team_annual", quantity: 5 },
+    ]);
+  });
+
+  it("schedules a downgrade for the end of the paid period", async () => {
+    const subscription = subscribe("price_team_monthly");
+
+    const result = await changePlan(apiEvent({ body: { plan: "standard" } }));
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result)).toMatchObject({
+      direction: "downgrade",
+      effective: "period_end",
+      effectiveAt: subscription.current_period_end,
+    });
+    expect(fakes.stripe.mock.subscriptions.update).not.toHaveBeenCalled();
+
+    const [schedule] = fakes.stripe.state.subscriptionSchedules;
+    expect(fakes.stripe.mock.subscriptionSchedules.create).toHaveBeenCalledWith({
+      from_subscription: subscription.id,
+    });
+    expect(fakes.stripe.mock.subscriptionSchedules.update).toHaveBeenCalledWith(schedule.id, {
+      end_behavior: "release",
+      phases: [
+        {
+          items: [{ price: "price_team_monthly", quantity: 1 }],
+          start_date: subscription.current_period_start,
+          end_date: subscription.current_period_end,
+        },
+        {
+          items: [{ price: "price_monthly", quantity: 1 }],
+          iterations: 1,
+          proration_behavior: "none",
+        },
+      ],
+    });
+  });
+
+  it("releases a pending downgrade before applying a new change", async () => {
+    subscribe("price_team_monthly");
+    await changePlan(apiEvent({ body: { plan: "standard" } }));
+    const [schedule] = fakes.stripe.state.subscriptionSchedules;
+
+    const result = await changePlan(apiEvent({ body: { plan: "team", quantity: 3 } }));
+
+    expect(result.statusCode).toBe(200);
+    expect(fakes.stripe.mock.subscriptionSchedules.release).toHaveBeenCalledWith(schedule.id);
+    expect(body(result)).toMatchObject({ direction: "upgrade", effective: "now" });
+  });
+
+  it("requires a quantity when the new plan allows fewer seats than the subscription has", async () => {
+    const subscription = subscribe("price_team_monthly");
+    subscription.items.data[0].quantity = 5;
+
+    const result = await changePlan(apiEvent({ body: { plan: "standard" } }));
+
+    expect(result.statusCode).toBe(400);
+    expect(body(result).error).toMatch(/a quantity is required/);
+    expect(fakes.stripe.mock.subscriptionSchedules.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a change to the current plan", async () => {
+    subscribe();
+
+    const result = await changePlan(apiEvent({ body: { plan: "standard" } }));
+
+    expect(result.statusCode).toBe(400);
+    expect(body(result).error).toBe("The subscription is already on this plan");
+  });
+
+  it("rejects one-time purchases and unknown proration behaviors", async () => {
+    subscribe();
+
+    const oneTime = await changePlan(apiEvent({ body: { plan: "credits" } }));
+    const proration = await changePlan(
+      apiEvent({ body: { plan: "team", prorationBehavior: "sometimes" } })
+    );
+
+    expect(oneTime.statusCode).toBe(400);
+    expect(proration.statusCode).toBe(400);
+    expect(fakes.stripe.mock.subscriptions.update).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 when the customer has no subscription to change", async () => {
+    fakes.dynamo.put(tables.customers, {
+      userId: testUser.sub,
+      stripeCustomerId: "cus_1",
+      email: testUser.email,
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    const result = await changePlan(apiEvent({ body: { plan: "team" } }));
+
+    expect(result.statusCode).toBe(409);
+    expect(metrics()).toEqual({});
+  });
+});
@@ -0,0 +1,275 @@
+import Stripe from "stripe";
+import { handler } from "../src/checkout/create-checkout";
+import { apiEvent, Fakes, installFakes, metrics, tables, testUser } from "./fakes";
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+const body = (result: { body: string }) => JSON.parse(result.body);
+
+describe("create-checkout", () => {
+  it("rejects requests without user claims", async () => {
+    const result = await handler(apiEvent({ claims: null }));
+
+    expect(result.statusCode).toBe(401);
+    expect(fakes.stripe.mock.customers.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a body that is not JSON", async () => {
+    const result = await handler(apiEvent({ body: "{not json" }));
+
+    expect(result.statusCode).toBe(400);
+    expect(body(result).error).toBe("Request body must be valid JSON");
+  });
+
+  it("rejects an unknown plan before touching Stripe", async () => {
+    const result = await handler(apiEvent({ body: { plan: "enterprise" } }));
+
+    expect(result.statusCode).toBe(400);
+    expect(fakes.stripe.mock.customers.create).not.toHaveBeenCalled();
+  });
+
+  it("creates a customer and starts a trial on the first subscription", async () => {
+    const result = await handler(apiEvent({ body: {} }));
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result).url).toMatch(/^https:\/\/checkout\.stripe\.test\//);
+
+    const [customer] = fakes.stripe.state.customers;
+    expect(customer.metadata).toEqual({ userId: testUser.sub });
+    expect(fakes.dynamo.get(tables.customers, { userId: testUser.sub })).toMatchObject({
+      stripeCustomerId: customer.id,
+      email: testUser.email,
+    });
+
+    const [session] = fakes.stripe.mock.checkout.sessions.create.mock.calls[0];
+    expect(session).toMatchObject({
+      customer: customer.id,
+      mode: "subscription",
+      line_items: [{ price: "price_monthly", quantity: 1 }],
+      subscription_data: { trial_period_days: 14 },
+      payment_method_collection: "if_required",
+    });
+    expect(metrics()).toEqual({ CheckoutSessionCreated: 1 });
+  });
+
+  it("reuses the stored customer and skips the trial for returning subscribers", async () => {
+    fakes.dynamo.put(tables.customers, {
+      userId: testUser.sub,
+      stripeCustomerId: "cus_existing",
+      email: testUser.email,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      subscriptionCount: 1,
+    });
+
+    const result = await handler(apiEvent({ body: { interval: "year" } }));
+
+    expect(result.statusCode).toBe(200);
+    expect(fakes.stripe.mock.customers.create).not.toHaveBeenCalled();
+    const [session] = fakes.stripe.mock.checkout.sessions.create.mock.calls[0];
+    expect(session.customer).toBe("cus_existing");
+    expect(session.line_items).toEqual([{ price: "price_annual", quantity: 1 }]);
+    expect(session.subscription_data).toBeUndefined();
+  });
+
+  it("rejects an unknown promotion code", async () => {
+    const result = await handler(apiEvent({ body: { promotionCode: "NOPE" } }));
+
+    expect(result.statusCode).toBe(400);
+    expect(body(result).error).toBe("Promotion code is invalid");
+    expect(fakes.stripe.mock.checkout.sessions.create).not.toHaveBeenCalled();
+  });
+
+  it("reports a promotion code Stripe refuses for the plan as a bad request", async () => {
+    fakes.stripe.state.promotionCodes.push({
+      id: "promo_1",
+      code: "SAVE10",
+      active: true,
+      expires_at: null,
+      max_redemptions: null,
+      times_redeemed: 0,
+      coupon: { valid: true },
+      customer: null,
+      restrictions: { first_time_transaction: false },
+    } as unknown as Stripe.PromotionCode);
+    fakes.stripe.mock.checkout.sessions.create.mockRejectedValueOnce(
+      new Stripe.errors.StripeInvalidRequestError({
+        type: "invalid_request_error",
+        param: "discounts[0][promotion_code]",
+        message: "This promotion code cannot be redeemed",
+      })
+    );
+
+    const result = await handler(apiEvent({ body: { promotionCode: "SAVE10" } }));
+
+    expect(result.statusCode).toBe(400);
+    expect(body(result).error).toBe("Promotion code cannot be applied to this plan");
+  });
+
+  it("fails without storing a record when the Stripe customer cannot be created", async () => {
+    fakes.stripe.mock.customers.create.mockRejectedValueOnce(new Error("Stripe is down"));
+
+    const result = await handler(apiEvent({ body: {} }));
+
+    expect(result.statusCode).toBe(500);
+    expect(body(result).error).toBe("Failed to create stripe customer");
+    expect(fakes.dynamo.items(tables.customers)).toEqual([]);
+  });
+
+  it("returns 500 when the checkout session cannot be created", async () => {
+    fakes.stripe.mock.checkout.sessions.create.mockRejectedValueOnce(new Error("Stripe is down"));
+
+    const result = await handler(apiEvent({ body: {} }));
+
+    expect(result.statusCode).toBe(500);
+    expect(body(result).error).toBe("Failed to create checkout session");
+    expect(metrics()).toEqual({ CheckoutFailed: 1 });
+  });
+
+  describe("duplicate protection", () => {
+    const storeCustomer = (fields: Record<string, unknown> = {}) =>
+      fakes.dynamo.put(tables.customers, {
+        userId: testUser.sub,
+        stripeCustomerId: "cus_existing",
+        email: testUser.email,
+        createdAt: "2024-01-01T00:00:00.000Z",
+        ...fields,
+      });
+
+    it("sends subscribers to the billing portal instead of a second subscription", async () => {
+      storeCustomer({ status: "active", subscriptionCount: 1 });
+
+      const result = await handler(apiEvent({ body: {} }));
+
+      expect(result.statusCode).toBe(409);
+      expect(body(result).portalUrl).toMatch(/^https:\/\/billing\.stripe\.test\//);
+      expect(fakes.stripe.mock.billingPortal.sessions.create).toHaveBeenCalledWith({
+        customer: "cus_existing",
+        return_url: "https://app.example.test/settings",
+      });
+      expect(fakes.stripe.mock.checkout.sessions.create).not.toHaveBeenCalled();
+      expect(metrics()).toEqual({ CheckoutFailed: 1 });
+    });
+
+    it("also sends customers with a subscription that is not over to the billing portal", async () => {
+      for (const status of ["paused", "unpaid", "incomplete"]) {
+        storeCustomer({ status, subscriptionCount: 1 });
+
+        const result = await handler(apiEvent({ body: {} }));
+
+        expect(result.statusCode).toBe(409);
+      }
+      expect(fakes.stripe.mock.checkout.sessions.create).not.toHaveBeenCalled();
+    });
+
+    it("lets a customer whose first payment never went through subscribe again", async () => {
+      storeCustomer({ status: "incomplete_expired", subscriptionCount: 1 });
+
+      const result = await handler(apiEvent({ body: {} }));
+
+      expect(result.statusCode).toBe(200);
+    });
+
+    it("still sells one-time purchases to subscribers", async () => {
+      storeCustomer({ status: "active", subscriptionCount: 1 });
+
+      const result = await handler(apiEvent({ body: { plan: "credits" } }));
+
+      expect(result.statusCode).toBe(200);
+    });
+
+    it("returns the open session again for repeated clicks", async () => {
+      const first = await handler(apiEvent({ body: {} }));
+      const second = await handler(apiEvent({ body: {} }));
+
+      expect(body(second).url).toBe(body(first).url);
+      expect(fakes.stripe.mock.checkout.sessions.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("expires the open session when a different purchase is started", async () => {
+      await handler(apiEvent({ body: {} }));
+      const [first] = fakes.stripe.state.checkoutSessions;
+
+      const result = await handler(apiEvent({ body: { interval: "year" } }));
+
+      expect(result.statusCode).toBe(200);
+      expect(first.status).toBe("expired");
+      expect(fakes.stripe.state.checkoutSessions).toHaveLength(2);
+    });
+
+    // The webhook for the paid session may not have been synced yet
+    const completeSession = (subscriptionId: string) =>
+      Object.assign(fakes.stripe.state.checkoutSessions[0], {
+        status: "complete",
+        subscription: subscriptionId,
+      });
+
+    it("refuses another subscription checkout once one has been paid", async () => {
+      await handler(apiEvent({ body: {} }));
+      completeSession("sub_paid");
+
+      const result = await handler(apiEvent({ body: { interval: "year" } }));
+
+      expect(result.statusCode).toBe(409);
+      expect(fakes.stripe.mock.checkout.sessions.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("sells one-time purchases after a completed subscription checkout", async () => {
+      await handler(apiEvent({ body: {} }));
+      completeSession("sub_paid");
+
+      const result = await handler(apiEvent({ body: { plan: "credits" } }));
+
+      expect(result.statusCode).toBe(200);
+      expect(fakes.stripe.mock.checkout.sessions.create).toHaveBeenCalledTimes(2);
+    });
+
+    it("lets a customer resubscribe once the paid subscription was canceled", async () => {
+      await handler(apiEvent({ body: {} }));
+      completeSession("sub_paid");
+      // Synced after the subscription was canceled
+      fakes.dynamo.put(tables.customers, {
+        ...fakes.dynamo.get(tables.customers, { userId: testUser.sub }),
+        subscriptionId: "sub_paid",
+        status: "canceled",
+        subscriptionCount: 1,
+      });
+
+      const result = await handler(apiEvent({ body: {} }));
+
+      expect(result.statusCode).toBe(200);
+      expect(fakes.stripe.mock.checkout.sessions.create).toHaveBeenCalledTimes(2);
+    });
+
+    it("creates one Stripe customer for parallel first checkouts", async () => {
+      const results = await Promise.all([
+        handler(apiEvent({ body: {} })),
+        handler(apiEvent({ body: {} })),
+      ]);
+
+      expect(results.map((result) => result.statusCode)).toEqual([200, 200]);
+      // The customer stored second was deleted again
+      expect(fakes.stripe.state.customers).toHaveLength(1);
+      const stored = fakes.dynamo.get(tables.customers, { userId: testUser.sub });
+      expect(fakes.stripe.state.customers[0].id).toBe(stored?.stripeCustomerId);
+    });
+
+    it("keeps the stored customer and removes its own when another request won", async () => {
+      fakes.stripe.mock.customers.create.mockImplementationOnce(async () => {
+        // A parallel request stores its customer while ours is being created
+        storeCustomer();
+        return { id: "cus_orphan", object: "customer" } as Stripe.Customer;
+      });
+
+      const result = await handler(apiEvent({ body: {} }));
+
+      expect(result.statusCode).toBe(200);
+      expect(fakes.stripe.mock.customers.del).toHaveBeenCalledWith("cus_orphan");
+      const [session] = fakes.stripe.mock.checkout.sessions.create.mock.calls[0];
+      expect(session.customer).toBe("cus_existing");
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import type { Context, ScheduledEvent } from "aws-lambda";
+import { handler } from "../src/dunning/process-dunning";
+import { Fakes, installFakes, publishedEvents, tables } from "./fakes";
+
+let fakes: Fakes;
+
+const userId = "user-1";
+const DAY_SECONDS = 24 * 60 * 60;
+const now = () => Math.floor(Date.now() / 1000);
+
+function enterGrace(firstFailedAt: number, graceEndsAt: number) {
+  fakes.dynamo.put(tables.customers, {
+    userId,
+    stripeCustomerId: "cus_1",
+    email: "user@example.test",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    dunningStatus: "grace",
+    dunningFailureCount: 1,
+    dunningFirstFailedAt: firstFailedAt,
+    dunningLastFailedAt: firstFailedAt,
+    dunningLastInvoiceId: "in_1",
+    dunningGraceEndsAt: graceEndsAt,
+    dunningRemindersSent: 0,
+  });
+}
+
+const run = () =>
+  handler({} as ScheduledEvent, { awsRequestId: "run-1" } as Context, () => undefined);
+const publishedTypes = () => publishedEvents(fakes.eventBridge).map((published) => published.type);
+const customerRecord = () => fakes.dynamo.get(tables.customers, { userId });
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+describe("process-dunning", () => {
+  it("expires the grace period and resyncs the user", async () => {
+    enterGrace(now() - 8 * DAY_SECONDS, now() - 60);
+
+    await run();
+
+    expect(customerRecord()?.dunningStatus).toBe("expired");
+    expect(customerRecord()?.dunningExpiryPending).toBeUndefined();
+    expect(publishedTypes()).toEqual(["dunning.grace_expired"]);
+    expect(fakes.lambda.inputs("InvokeCommand")).toHaveLength(1);
+
+    await run();
+
+    expect(publishedTypes()).toEqual(["dunning.grace_expired"]);
+  });
+
+  it("retries an expiry whose resync failed on the next run", async () => {
+    enterGrace(now() - 8 * DAY_SECONDS, now() - 60);
+    fakes.lambda.failWith("InvokeCommand", new Error("Rate exceeded"));
+
+    await expect(run()).rejects.toThrow("Dunning run failed for 1 customer(s)");
+    expect(customerRecord()).toMatchObject({ dunningStatus: "expired", dunningExpiryPending: true });
+
+    fakes.lambda.respondWith("InvokeCommand", () => ({}));
+    fakes.lambda.calls.length = 0;
+    await run();
+
+    expect(fakes.lambda.inputs("InvokeCommand")).toHaveLength(1);
+    expect(customerRecord()?.dunningExpiryPending).toBeUndefined();
+  });
+
+  it("sends a reminder again on the next run when publishing failed", async () => {
+    enterGrace(now() - 2 * DAY_SECONDS, now() + 5 * DAY_SECONDS);
+    fakes.eventBridge.failWith("PutEventsCommand", new Error("EventBridge is down"));
+
+    await expect(run()).rejects.toThrow();
+    expect(customerRecord()?.dunningRemindersSent).toBe(0);
+
+    fakes.eventBridge.respondWith("PutEventsCommand", () => ({}));
+    fakes.eventBridge.calls.length = 0;
+    await run();
+    await run();
+
+    expect(publishedTypes()).toEqual(["dunning.reminder"]);
+    expect(customerRecord()?.dunningRemindersSent).toBe(1);
+  });
+});
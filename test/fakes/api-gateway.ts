@@ -0,0 +1,33 @@
+// test/fakes/api-gateway.ts
+// Proxy events shaped like the ones API Gateway passes to the handlers.
+import type { APIGatewayProxyEvent } from "aws-lambda";
+
+export const testUser = { sub: "user-1", email: "user@example.test" };
+
+type ApiEventOptions = {
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Null for routes without the Cognito authorizer
+  claims?: Record<string, string> | null;
+};
+
+export function apiEvent(options: ApiEventOptions = {}): APIGatewayProxyEvent {
+  const { body, headers = {}, claims = testUser } = options;
+  return {
+    body: body === undefined ? null : typeof body === "string" ? body : JSON.stringify(body),
+    headers,
+    multiValueHeaders: {},
+    httpMethod: "POST",
+    isBase64Encoded: false,
+    path: "/subscription",
+    pathParameters: null,
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    stageVariables: null,
+    resource: "/subscription",
+    requestContext: {
+      requestId: "request-1",
+      authorizer: claims ? { claims } : undefined,
+    },
+  } as unknown as APIGatewayProxyEvent;
+}
@@ -0,0 +1,94 @@
+// test/fakes/aws.ts
+// Records the commands sent to Cognito, EventBridge, SQS, Lambda and Secrets
+// Manager. Responses default to an empty success; respondWith/failWith change
+// that per command.
+import type {
+  AdminUpdateUserAttributesCommandInput,
+  AdminUpdateUserAttributesCommandOutput,
+} from "@aws-sdk/client-cognito-identity-provider";
+import type {
+  PutEventsCommandInput,
+  PutEventsCommandOutput,
+  PutEventsRequestEntry,
+} from "@aws-sdk/client-eventbridge";
+import type { InvocationRequest, InvocationResponse } from "@aws-sdk/client-lambda";
+import type {
+  GetSecretValueCommandInput,
+  GetSecretValueCommandOutput,
+} from "@aws-sdk/client-secrets-manager";
+import type {
+  ChangeMessageVisibilityCommandInput,
+  ChangeMessageVisibilityCommandOutput,
+  SendMessageCommandInput,
+  SendMessageCommandOutput,
+} from "@aws-sdk/client-sqs";
+
+// Input and output of the commands the handlers send, by command name. Lambda
+// payloads are plain byte arrays, as the handlers write and read them.
+type Commands = {
+  AdminUpdateUserAttributesCommand: [
+    AdminUpdateUserAttributesCommandInput,
+    AdminUpdateUserAttributesCommandOutput
+  ];
+  PutEventsCommand: [PutEventsCommandInput, PutEventsCommandOutput];
+  SendMessageCommand: [SendMessageCommandInput, SendMessageCommandOutput];
+  ChangeMessageVisibilityCommand: [
+    ChangeMessageVisibilityCommandInput,
+    ChangeMessageVisibilityCommandOutput
+  ];
+  InvokeCommand: [InvocationRequest, InvocationResponse];
+  GetSecretValueCommand: [GetSecretValueCommandInput, GetSecretValueCommandOutput];
+};
+
+export type CommandName = keyof Commands;
+export type CommandInput<K extends CommandName> = Commands[K][0];
+// Responses leave out the request metadata the SDK adds
+export type CommandResponse<K extends CommandName> = Omit<Commands[K][1], "$metadata">;
+
+type Command = { constructor: { name: string }; input: object };
+
+export class RecordingClient {
+  readonly calls: { command: string; input: object }[] = [];
+  private handlers = new Map<string, (input: object) => unknown>();
+
+  respondWith<K extends CommandName>(
+    command: K,
+    handler: (input: CommandInput<K>) => CommandResponse<K> | Promise<CommandResponse<K>>
+  ): this {
+    // Only called with the input of a command of that name
+    this.handlers.set(command, (input) => handler(input as CommandInput<K>));
+    return this;
+  }
+
+  failWith(command: CommandName, error: Error): this {
+    return this.respondWith(command, () => {
+      throw error;
+    });
+  }
+
+  inputs<K extends CommandName>(command: K): CommandInput<K>[] {
+    return this.calls
+      .filter((call) => call.command === command)
+      .map((call) => call.input as CommandInput<K>);
+  }
+
+  async send(command: Command): Promise<unknown> {
+    const name = command.constructor.name;
+    this.calls.push({ command: name, input: command.input });
+    const handler = this.handlers.get(name);
+    return handler ? handler(command.input) : {};
+  }
+}
+
+// The detail of every event published to the bus, by detail type
+export function publishedEvents(
+  eventBridge: RecordingClient
+): { type: string; detail: Record<string, unknown> }[] {
+  return eventBridge
+    .inputs("PutEventsCommand")
+    .flatMap((input) => input.Entries ?? [])
+    .map((entry: PutEventsRequestEntry) => ({
+      type: entry.DetailType ?? "",
+      detail: JSON.parse(entry.Detail ?? "{}"),
+    }));
+}
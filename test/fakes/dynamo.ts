@@ -0,0 +1,447 @@
+// test/fakes/dynamo.ts
+// In-memory stand-in for the DynamoDB document client. Supports the commands and
+// the expression syntax the handlers use: Get, Put, Update, Query and Scan, with
+// condition/key/filter expressions, SET (incl. if_not_exists), ADD and REMOVE.
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  GetCommand,
+  GetCommandOutput,
+  PutCommand,
+  PutCommandOutput,
+  QueryCommand,
+  QueryCommandOutput,
+  ScanCommand,
+  ScanCommandOutput,
+  UpdateCommand,
+  UpdateCommandOutput,
+} from "@aws-sdk/lib-dynamodb";
+
+type Item = Record<string, unknown>;
+
+type DocumentCommand = GetCommand | PutCommand | UpdateCommand | QueryCommand | ScanCommand;
+// Responses leave out the request metadata the SDK adds
+type DocumentResponse<
+  T =
+    | GetCommandOutput
+    | PutCommandOutput
+    | UpdateCommandOutput
+    | QueryCommandOutput
+    | ScanCommandOutput
+> = T extends unknown ? Omit<T, "$metadata"> : never;
+
+export type KeySchema = { partitionKey: string; sortKey?: string };
+
+export type TableSchema = KeySchema & {
+  indexes?: Record<string, KeySchema>;
+};
+
+type ExpressionContext = {
+  names?: Record<string, string>;
+  values?: Record<string, unknown>;
+};
+
+// --- Expressions -----------------------------------------------------------
+
+type Token = { type: "name" | "value" | "op" | "word" | "paren" | "comma"; text: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(#[\w]+|:[\w]+|<>|<=|>=|[=<>+\-]|\(|\)|,|[A-Za-z_][\w.]*)/y;
+  let match: RegExpExecArray | null;
+  let position = 0;
+  while (position < expression.length) {
+    pattern.lastIndex = position;
+    match = pattern.exec(expression);
+    if (!match) {
+      if (expression.slice(position).trim() === "") break;
+      throw new Error(`Cannot parse expression at: ${expression.slice(position)}`);
+    }
+    const text = match[1];
+    position = pattern.lastIndex;
+    if (text.startsWith("#")) tokens.push({ type: "name", text });
+    else if (text.startsWith(":")) tokens.push({ type: "value", text });
+    else if (text === "(" || text === ")") tokens.push({ type: "paren", text });
+    else if (text === ",") tokens.push({ type: "comma", text });
+    else if (/^[=<>+\-]|^<>|^<=|^>=/.test(text)) tokens.push({ type: "op", text });
+    else tokens.push({ type: "word", text });
+  }
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private context: ExpressionContext) {}
+
+  done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw new Error("Unexpected end of expression");
+    return token;
+  }
+
+  expect(text: string): void {
+    const token = this.next();
+    if (token.text !== text) throw new Error(`Expected ${text}, got ${token.text}`);
+  }
+
+  peekWord(word: string): boolean {
+    const token = this.peek();
+    return token?.type === "word" && token.text.toUpperCase() === word.toUpperCase();
+  }
+
+  attributeName(): string {
+    const token = this.next();
+    if (token.type === "name") {
+      const name = this.context.names?.[token.text];
+      if (name === undefined) throw new Error(`Missing ExpressionAttributeNames entry ${token.text}`);
+      return name;
+    }
+    if (token.type === "word") return token.text;
+    throw new Error(`Expected an attribute name, got ${token.text}`);
+  }
+
+  value(): unknown {
+    const token = this.next();
+    if (!(token.text in (this.context.values ?? {}))) {
+      throw new Error(`Missing ExpressionAttributeValues entry ${token.text}`);
+    }
+    return this.context.values![token.text];
+  }
+
+  // operand := :value | attribute
+  operand(item: Item): unknown {
+    return this.peek()?.type === "value" ? this.value() : item[this.attributeName()];
+  }
+
+  // condition := and (OR and)*
+  condition(item: Item): boolean {
+    let result = this.and(item);
+    while (this.peekWord("OR")) {
+      this.next();
+      const right = this.and(item);
+      result = result || right;
+    }
+    return result;
+  }
+
+  private and(item: Item): boolean {
+    let result = this.not(item);
+    while (this.peekWord("AND")) {
+      this.next();
+      const right = this.not(item);
+      result = result && right;
+    }
+    return result;
+  }
+
+  private not(item: Item): boolean {
+    if (this.peekWord("NOT")) {
+      this.next();
+      return !this.not(item);
+    }
+    return this.comparison(item);
+  }
+
+  private comparison(item: Item): boolean {
+    const token = this.peek();
+    if (token?.type === "paren" && token.text === "(") {
+      this.next();
+      const result = this.condition(item);
+      this.expect(")");
+      return result;
+    }
+    if (token?.type === "word" && this.tokens[this.position + 1]?.text === "(") {
+      return this.call(item);
+    }
+
+    const left = this.operand(item);
+    if (this.peekWord("BETWEEN")) {
+      this.next();
+      const low = this.operand(item);
+      if (!this.peekWord("AND")) throw new Error("Expected AND in BETWEEN");
+      this.next();
+      const high = this.operand(item);
+      return compare(left, ">=", low) && compare(left, "<=", high);
+    }
+    const operator = this.next().text;
+    const right = this.operand(item);
+    return compare(left, operator, right);
+  }
+
+  private call(item: Item): boolean {
+    const name = this.next().text;
+    this.expect("(");
+    const attribute = this.attributeName();
+    let argument: unknown;
+    if (this.peek()?.type === "comma") {
+      this.next();
+      argument = this.operand(item);
+    }
+    this.expect(")");
+
+    const value = item[attribute];
+    switch (name) {
+      case "attribute_exists":
+        return value !== undefined;
+      case "attribute_not_exists":
+        return value === undefined;
+      case "begins_with":
+        return typeof value === "string" && typeof argument === "string" && value.startsWith(argument);
+      default:
+        throw new Error(`Unsupported function ${name}`);
+    }
+  }
+}
+
+// Negative, zero or positive like a sort comparator; null for values DynamoDB
+// does not order against each other (only numbers with numbers, strings with strings)
+function order(left: unknown, right: unknown): number | null {
+  if (typeof left === "number" && typeof right === "number") return left - right;
+  if (typeof left === "string" && typeof right === "string") {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return null;
+}
+
+function compare(left: unknown, operator: string, right: unknown): boolean {
+  if (operator === "=") return left !== undefined && left === right;
+  if (operator === "<>") return left !== right;
+  const difference = order(left, right);
+  if (difference === null) {
+    return false;
+  }
+  switch (operator) {
+    case "<":
+      return difference < 0;
+    case "<=":
+      return difference <= 0;
+    case ">":
+      return difference > 0;
+    case ">=":
+      return difference >= 0;
+    default:
+      throw new Error(`Unsupported operator ${operator}`);
+  }
+}
+
+function evaluateCondition(
+  expression: string | undefined,
+  item: Item,
+  context: ExpressionContext
+): boolean {
+  if (!expression) return true;
+  const parser = new Parser(tokenize(expression), context);
+  const result = parser.condition(item);
+  if (!parser.done()) throw new Error(`Unexpected input in expression: ${expression}`);
+  return result;
+}
+
+function contextOf(input: {
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, unknown>;
+}): ExpressionContext {
+  return { names: input.ExpressionAttributeNames, values: input.ExpressionAttributeValues };
+}
+
+const clauseKeywords = ["SET", "ADD", "REMOVE", "DELETE"];
+
+// Applies an UpdateExpression to a copy of the item
+function applyUpdate(expression: string, item: Item, context: ExpressionContext): Item {
+  const updated = { ...item };
+  const parser = new Parser(tokenize(expression), context);
+  const atClause = () => {
+    const token = parser.peek();
+    return !token || (token.type === "word" && clauseKeywords.includes(token.text.toUpperCase()));
+  };
+
+  while (!parser.done()) {
+    const clause = parser.next().text.toUpperCase();
+    do {
+      if (parser.peek()?.type === "comma") parser.next();
+      const attribute = parser.attributeName();
+      switch (clause) {
+        case "SET": {
+          parser.expect("=");
+          let value = setValue(parser, item);
+          if (parser.peek()?.text === "+" || parser.peek()?.text === "-") {
+            const operator = parser.next().text;
+            const left = numeric(value, attribute);
+            const right = numeric(setValue(parser, item), attribute);
+            value = operator === "+" ? left + right : left - right;
+          }
+          updated[attribute] = value;
+          break;
+        }
+        case "ADD":
+          updated[attribute] =
+            numeric(updated[attribute] ?? 0, attribute) + numeric(parser.value(), attribute);
+          break;
+        case "REMOVE":
+          delete updated[attribute];
+          break;
+        default:
+          throw new Error(`Unsupported update clause ${clause}`);
+      }
+    } while (!atClause());
+  }
+  return updated;
+}
+
+function numeric(value: unknown, attribute: string): number {
+  if (typeof value !== "number") throw new Error(`Expected a number for ${attribute}`);
+  return value;
+}
+
+function setValue(parser: Parser, item: Item): unknown {
+  if (parser.peekWord("if_not_exists")) {
+    parser.next();
+    parser.expect("(");
+    const attribute = parser.attributeName();
+    parser.expect(",");
+    const fallback = parser.operand(item);
+    parser.expect(")");
+    return item[attribute] ?? fallback;
+  }
+  return parser.operand(item);
+}
+
+// --- Tables ----------------------------------------------------------------
+
+function conditionFailed(): ConditionalCheckFailedException {
+  return new ConditionalCheckFailedException({
+    message: "The conditional request failed",
+    $metadata: {},
+  });
+}
+
+const clone = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+
+export class FakeDynamo {
+  readonly tables = new Map<string, Map<string, Item>>();
+  // Every command sent, for assertions on what a handler wrote
+  readonly calls: { command: string; input: object }[] = [];
+
+  constructor(private schemas: Record<string, TableSchema>) {
+    for (const name of Object.keys(schemas)) {
+      this.tables.set(name, new Map());
+    }
+  }
+
+  // Seeds a table directly
+  put(tableName: string, item: Item): void {
+    this.table(tableName).set(this.keyOf(tableName, item), clone(item));
+  }
+
+  get(tableName: string, key: Item): Item | undefined {
+    return clone(this.table(tableName).get(this.keyOf(tableName, key)));
+  }
+
+  items(tableName: string): Item[] {
+    return [...this.table(tableName).values()].map(clone);
+  }
+
+  async send(command: DocumentCommand): Promise<DocumentResponse> {
+    const name = command.constructor.name;
+    this.calls.push({ command: name, input: command.input });
+
+    if (command instanceof GetCommand) {
+      const { input } = command;
+      return { Item: this.get(input.TableName!, input.Key!) };
+    }
+
+    if (command instanceof PutCommand) {
+      const { input } = command;
+      const table = this.table(input.TableName!);
+      const key = this.keyOf(input.TableName!, input.Item!);
+      const existing = table.get(key);
+      if (!evaluateCondition(input.ConditionExpression, existing ?? {}, contextOf(input))) {
+        throw conditionFailed();
+      }
+      table.set(key, clone(input.Item!));
+      return { Attributes: input.ReturnValues === "ALL_OLD" ? clone(existing) : undefined };
+    }
+
+    if (command instanceof UpdateCommand) {
+      const { input } = command;
+      const context = contextOf(input);
+      const table = this.table(input.TableName!);
+      const key = this.keyOf(input.TableName!, input.Key!);
+      const existing = table.get(key);
+      if (!evaluateCondition(input.ConditionExpression, existing ?? {}, context)) {
+        throw conditionFailed();
+      }
+      const updated = applyUpdate(input.UpdateExpression!, { ...existing, ...input.Key }, context);
+      table.set(key, updated);
+      const attributes =
+        input.ReturnValues === "ALL_OLD" ? existing : input.ReturnValues === "ALL_NEW" ? updated : undefined;
+      return { Attributes: clone(attributes) };
+    }
+
+    if (command instanceof QueryCommand || command instanceof ScanCommand) {
+      const { input } = command;
+      const tableName = input.TableName!;
+      const context = contextOf(input);
+      // Scans have no key condition and always run forward
+      const query = command instanceof QueryCommand ? command.input : undefined;
+      const schema = input.IndexName
+        ? this.schemas[tableName].indexes?.[input.IndexName]
+        : this.schemas[tableName];
+      if (!schema) throw new Error(`Unknown index ${input.IndexName} on ${tableName}`);
+
+      let items = [...this.table(tableName).values()].filter(
+        (item) =>
+          // Items without the index keys are not in a sparse index
+          item[schema.partitionKey] !== undefined &&
+          (!schema.sortKey || item[schema.sortKey] !== undefined) &&
+          evaluateCondition(query?.KeyConditionExpression, item, context)
+      );
+      if (schema.sortKey) {
+        const sortKey = schema.sortKey;
+        items.sort((a, b) => order(a[sortKey], b[sortKey]) ?? 0);
+        if (query?.ScanIndexForward === false) items.reverse();
+      }
+      if (input.ExclusiveStartKey) {
+        const start = this.keyOf(tableName, input.ExclusiveStartKey);
+        items = items.slice(items.findIndex((item) => this.keyOf(tableName, item) === start) + 1);
+      }
+      const page = input.Limit ? items.slice(0, input.Limit) : items;
+      const lastItem = page[page.length - 1];
+      const hasMore = input.Limit !== undefined && items.length > input.Limit;
+      const filtered = page.filter((item) =>
+        evaluateCondition(input.FilterExpression, item, context)
+      );
+      return {
+        Items: filtered.map(clone),
+        Count: filtered.length,
+        LastEvaluatedKey: hasMore ? this.primaryKey(tableName, lastItem) : undefined,
+      };
+    }
+
+    throw new Error(`FakeDynamo does not support ${name}`);
+  }
+
+  private table(tableName: string): Map<string, Item> {
+    const table = this.tables.get(tableName);
+    if (!table) throw new Error(`Unknown table ${tableName}`);
+    return table;
+  }
+
+  private primaryKey(tableName: string, item: Item): Item {
+    const { partitionKey, sortKey } = this.schemas[tableName];
+    return sortKey
+      ? { [partitionKey]: item[partitionKey], [sortKey]: item[sortKey] }
+      : { [partitionKey]: item[partitionKey] };
+  }
+
+  private keyOf(tableName: string, item: Item): string {
+    return JSON.stringify(Object.values(this.primaryKey(tableName, item)));
+  }
+}
@@ -0,0 +1,69 @@
+// test/fakes/index.ts
+// Installs a fresh set of fakes as the clients every handler uses.
+import { setClients } from "../../src/shared/clients";
+import { clearSecretCache } from "../../src/shared/secrets";
+import { RecordingClient } from "./aws";
+import { FakeDynamo } from "./dynamo";
+import { createFakeStripe } from "./stripe";
+
+export * from "./api-gateway";
+export * from "./aws";
+export * from "./dynamo";
+export * from "./output";
+export * from "./stripe";
+
+// Mirrors the tables in lib/stripe-stack.ts (names come from test/setup-env.ts)
+export const tables = {
+  customers: "test-customers",
+  subscriptions: "test-subscriptions",
+  events: "test-events",
+  purchases: "test-purchases",
+  invoices: "test-invoices",
+};
+
+export function installFakes() {
+  const dynamo = new FakeDynamo({
+    [tables.customers]: {
+      partitionKey: "userId",
+      indexes: {
+        "stripeCustomerId-index": { partitionKey: "stripeCustomerId" },
+        "dunning-index": { partitionKey: "dunningStatus", sortKey: "dunningGraceEndsAt" },
+      },
+    },
+    [tables.subscriptions]: { partitionKey: "userId", sortKey: "subscriptionId" },
+    [tables.events]: {
+      partitionKey: "eventId",
+      indexes: { "receivedDate-index": { partitionKey: "receivedDate", sortKey: "receivedAt" } },
+    },
+    [tables.purchases]: { partitionKey: "userId", sortKey: "purchaseId" },
+    [tables.invoices]: {
+      partitionKey: "userId",
+      sortKey: "invoiceId",
+      indexes: { "created-index": { partitionKey: "userId", sortKey: "created" } },
+    },
+  });
+  const stripe = createFakeStripe();
+  const fakes = {
+    dynamo,
+    stripe,
+    cognito: new RecordingClient(),
+    eventBridge: new RecordingClient(),
+    sqs: new RecordingClient(),
+    lambda: new RecordingClient(),
+    secretsManager: new RecordingClient(),
+  };
+
+  setClients({
+    dynamo,
+    stripe: stripe.stripe,
+    cognito: fakes.cognito,
+    eventBridge: fakes.eventBridge,
+    sqs: fakes.sqs,
+    lambda: fakes.lambda,
+    secretsManager: fakes.secretsManager,
+  });
+  clearSecretCache();
+  return fakes;
+}
+
+export type Fakes = ReturnType<typeof installFakes>;
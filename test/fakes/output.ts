@@ -0,0 +1,38 @@
+// test/fakes/output.ts
+// The logger and metrics write JSON lines to stdout. test/setup-output.ts captures
+// them for every test so they can be asserted on (and stay out of the test output).
+type OutputLine = Record<string, unknown>;
+
+// The part of an Embedded Metric Format line read here; the values are top-level fields
+type MetricLine = OutputLine & {
+  _aws: { CloudWatchMetrics: { Metrics: { Name: string }[] }[] };
+};
+
+const isMetricLine = (line: OutputLine): line is MetricLine => line._aws !== undefined;
+
+let lines: OutputLine[] = [];
+
+export function captureOutput(): void {
+  lines = [];
+  jest.spyOn(process.stdout, "write").mockImplementation((chunk: string | Uint8Array) => {
+    for (const line of chunk.toString().split("\n").filter(Boolean)) {
+      lines.push(JSON.parse(line));
+    }
+    return true;
+  });
+}
+
+export function logLines(): OutputLine[] {
+  return lines.filter((line) => !isMetricLine(line));
+}
+
+// Metric name => summed value, from the Embedded Metric Format lines
+export function metrics(): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const line of lines.filter(isMetricLine)) {
+    for (const { Name } of line._aws.CloudWatchMetrics[0].Metrics) {
+      totals[Name] = (totals[Name] ?? 0) + Number(line[Name]);
+    }
+  }
+  return totals;
+}
@@ -0,0 +1,330 @@
+// test/fakes/stripe.ts
+// A Stripe client backed by in-memory state, covering the API calls the handlers
+// make. Every method is a jest.fn, so a test can make one fail with
+// mockRejectedValueOnce. Webhook signatures use the real SDK helpers.
+import Stripe from "stripe";
+
+export const webhookSecret = "whsec_test";
+
+const realStripe = new Stripe("sk_test_fake");
+
+export type FakeStripeState = {
+  customers: Stripe.Customer[];
+  subscriptions: Stripe.Subscription[];
+  products: Stripe.Product[];
+  promotionCodes: Stripe.PromotionCode[];
+  events: Stripe.Event[];
+  lineItems: Record<string, Stripe.LineItem[]>;
+  checkoutSessions: Stripe.Checkout.Session[];
+  subscriptionSchedules: Stripe.SubscriptionSchedule[];
+};
+
+// Amounts (in cents) of the catalog prices in test/setup-env.ts
+const catalogPrices: Record<string, { unitAmount: number; interval: "month" | "year" }> = {
+  price_monthly: { unitAmount: 1000, interval: "month" },
+  price_annual: { unitAmount: 10000, interval: "year" },
+  price_team_monthly: { unitAmount: 3000, interval: "month" },
+  price_team_annual: { unitAmount: 30000, interval: "year" },
+};
+
+let sequence = 0;
+const nextId = (prefix: string) => `${prefix}_test${++sequence}`;
+
+// Builds the error the SDK throws for a 404 from the API
+export function resourceMissing(message: string): Stripe.errors.StripeInvalidRequestError {
+  return new Stripe.errors.StripeInvalidRequestError({
+    type: "invalid_request_error",
+    code: "resource_missing",
+    message,
+  });
+}
+
+export function createFakeStripe() {
+  const state: FakeStripeState = {
+    customers: [],
+    subscriptions: [],
+    products: [],
+    promotionCodes: [],
+    events: [],
+    lineItems: {},
+    checkoutSessions: [],
+    subscriptionSchedules: [],
+  };
+  const findSubscription = (id: string) => {
+    const subscription = state.subscriptions.find((candidate) => candidate.id === id);
+    if (!subscription) throw resourceMissing(`No such subscription: '${id}'`);
+    return subscription;
+  };
+
+  // Recurring amount after applying the previewed item changes
+  const previewTotal = (
+    subscription: Stripe.Subscription,
+    items: Stripe.InvoiceCreatePreviewParams.SubscriptionDetails.Item[] = []
+  ) =>
+    subscription.items.data.reduce((total, item) => {
+      const change = items.find((candidate) => candidate.id === item.id);
+      const price = change?.price ? buildPrice(change.price) : item.price;
+      return total + (price.unit_amount ?? 0) * (change?.quantity ?? item.quantity ?? 1);
+    }, 0);
+
+  const findSession = (id: string) => {
+    const session = state.checkoutSessions.find((candidate) => candidate.id === id);
+    if (!session) throw resourceMissing(`No such checkout.session: '${id}'`);
+    return session;
+  };
+
+  const list = <T>(data: T[]) => ({
+    object: "list",
+    data,
+    has_more: false,
+    autoPagingToArray: async ({ limit }: { limit: number }) => data.slice(0, limit),
+    async *[Symbol.asyncIterator]() {
+      yield* data;
+    },
+  });
+
+  const stripe = {
+    customers: {
+      create: jest.fn(async (params: Stripe.CustomerCreateParams) => {
+        const customer = {
+          id: nextId("cus"),
+          object: "customer",
+          email: params.email ?? null,
+          metadata: params.metadata ?? {},
+        } as unknown as Stripe.Customer;
+        state.customers.push(customer);
+        return customer;
+      }),
+      del: jest.fn(async (id: string) => {
+        state.customers = state.customers.filter((customer) => customer.id !== id);
+        return { id, object: "customer", deleted: true };
+      }),
+      list: jest.fn(async () => list(state.customers)),
+    },
+    subscriptions: {
+      list: jest.fn((params: Stripe.SubscriptionListParams) =>
+        list(state.subscriptions.filter((subscription) => subscription.customer === params.customer))
+      ),
+      retrieve: jest.fn(async (id: string) => findSubscription(id)),
+      update: jest.fn(async (id: string, params: Stripe.SubscriptionUpdateParams) => {
+        const subscription = findSubscription(id);
+        for (const change of params.items ?? []) {
+          const item = subscription.items.data.find((candidate) => candidate.id === change.id);
+          if (item && change.price) item.price = buildPrice(change.price);
+          if (item && change.quantity) item.quantity = change.quantity;
+        }
+        if (params.cancel_at_period_end !== undefined) {
+          subscription.cancel_at_period_end = params.cancel_at_period_end;
+        }
+        if (params.cancellation_details) {
+          subscription.cancellation_details = {
+            ...subscription.cancellation_details,
+            ...params.cancellation_details,
+          } as Stripe.Subscription.CancellationDetails;
+        }
+        if (params.pause_collection !== undefined) {
+          subscription.pause_collection = (params.pause_collection ||
+            null) as Stripe.Subscription.PauseCollection | null;
+        }
+        // Empty strings remove metadata keys, as in Stripe
+        for (const [key, value] of Object.entries(params.metadata || {})) {
+          if (value) subscription.metadata[key] = String(value);
+          else delete subscription.metadata[key];
+        }
+        return subscription;
+      }),
+    },
+    subscriptionSchedules: {
+      create: jest.fn(async (params: Stripe.SubscriptionScheduleCreateParams) => {
+        const subscription = findSubscription(params.from_subscription!);
+        const schedule = {
+          id: nextId("sub_sched"),
+          object: "subscription_schedule",
+          subscription: subscription.id,
+          phases: [
+            {
+              start_date: subscription.current_period_start,
+              end_date: subscription.current_period_end,
+              items: subscription.items.data.map((item) => ({
+                price: item.price.id,
+                quantity: item.quantity,
+              })),
+            },
+          ],
+        } as unknown as Stripe.SubscriptionSchedule;
+        subscription.schedule = schedule.id;
+        state.subscriptionSchedules.push(schedule);
+        return schedule;
+      }),
+      update: jest.fn(async (id: string, params: Stripe.SubscriptionScheduleUpdateParams) => {
+        const schedule = state.subscriptionSchedules.find((candidate) => candidate.id === id)!;
+        Object.assign(schedule, params);
+        return schedule;
+      }),
+      release: jest.fn(async (id: string) => {
+        const schedule = state.subscriptionSchedules.find((candidate) => candidate.id === id)!;
+        const subscription = findSubscription(schedule.subscription as string);
+        subscription.schedule = null;
+        return { ...schedule, status: "released" };
+      }),
+    },
+    prices: {
+      retrieve: jest.fn(async (id: string) => buildPrice(id)),
+    },
+    invoices: {
+      // Prorations are simplified to the full difference in price
+      createPreview: jest.fn(async (params: Stripe.InvoiceCreatePreviewParams) => {
+        const subscription = findSubscription(params.subscription!);
+        const current = previewTotal(subscription);
+        const changed = previewTotal(subscription, params.subscription_details?.items);
+        const behavior = params.subscription_details?.proration_behavior;
+        const proration = behavior === "none" ? 0 : Math.max(0, changed - current);
+        const total = behavior === "always_invoice" ? proration : changed + proration;
+        return {
+          object: "invoice",
+          currency: "usd",
+          amount_due: total,
+          total,
+          next_payment_attempt: subscription.current_period_end,
+          period_end: subscription.current_period_end,
+        } as unknown as Stripe.Invoice;
+      }),
+    },
+    products: {
+      retrieve: jest.fn(async (id: string) => {
+        const product = state.products.find((candidate) => candidate.id === id);
+        if (!product) throw resourceMissing(`No such product: '${id}'`);
+        return product;
+      }),
+    },
+    promotionCodes: {
+      list: jest.fn(async (params: Stripe.PromotionCodeListParams) =>
+        list(state.promotionCodes.filter((promotionCode) => promotionCode.code === params.code))
+      ),
+    },
+    events: {
+      retrieve: jest.fn(async (id: string) => {
+        const event = state.events.find((candidate) => candidate.id === id);
+        if (!event) throw resourceMissing(`No such event: '${id}'`);
+        return event;
+      }),
+    },
+    checkout: {
+      sessions: {
+        create: jest.fn(async (params: Stripe.Checkout.SessionCreateParams) => {
+          const id = nextId("cs");
+          const session = {
+            id,
+            object: "checkout.session",
+            ...params,
+            status: "open",
+            expires_at: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+            url: `https://checkout.stripe.test/${id}`,
+          } as unknown as Stripe.Checkout.Session;
+          state.checkoutSessions.push(session);
+          return session;
+        }),
+        retrieve: jest.fn(async (id: string) => findSession(id)),
+        expire: jest.fn(async (id: string) => {
+          const session = findSession(id);
+          session.status = "expired";
+          session.url = null;
+          return session;
+        }),
+        listLineItems: jest.fn(async (id: string) => list(state.lineItems[id] ?? [])),
+      },
+    },
+    billingPortal: {
+      sessions: {
+        create: jest.fn(async (params: Stripe.BillingPortal.SessionCreateParams) => {
+          const id = nextId("bps");
+          return {
+            id,
+            object: "billing_portal.session",
+            ...params,
+            url: `https://billing.stripe.test/${id}`,
+          } as unknown as Stripe.BillingPortal.Session;
+        }),
+      },
+    },
+    webhooks: realStripe.webhooks,
+  };
+
+  return { stripe: stripe as unknown as Stripe, mock: stripe, state };
+}
+
+export type FakeStripe = ReturnType<typeof createFakeStripe>;
+
+export function buildProduct(id: string, metadata: Stripe.Metadata = {}): Stripe.Product {
+  return { id, object: "product", metadata } as unknown as Stripe.Product;
+}
+
+export function buildPrice(id: string): Stripe.Price {
+  const known = catalogPrices[id];
+  return {
+    id,
+    object: "price",
+    product: "prod_pro",
+    unit_amount: known?.unitAmount ?? 0,
+    recurring: known ? { interval: known.interval, interval_count: 1 } : null,
+  } as unknown as Stripe.Price;
+}
+
+export function buildSubscription(
+  customer: string,
+  overrides: Partial<Stripe.Subscription> & { priceId?: string; productId?: string } = {}
+): Stripe.Subscription {
+  const { priceId = "price_monthly", productId = "prod_pro", ...fields } = overrides;
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id: nextId("sub"),
+    object: "subscription",
+    customer,
+    status: "active",
+    items: {
+      object: "list",
+      data: [
+        {
+          id: nextId("si"),
+          price: { ...buildPrice(priceId), product: productId },
+          quantity: 1,
+        },
+      ],
+    },
+    current_period_start: now,
+    current_period_end: now + 30 * 24 * 60 * 60,
+    cancel_at_period_end: false,
+    canceled_at: null,
+    trial_start: null,
+    trial_end: null,
+    discounts: [],
+    discount: null,
+    pause_collection: null,
+    metadata: {},
+    created: now,
+    default_payment_method: null,
+    ...fields,
+  } as unknown as Stripe.Subscription;
+}
+
+// An event as Stripe would send it; sign it with signWebhook before posting
+export function buildEvent(
+  type: Stripe.Event.Type,
+  object: Record<string, unknown>
+): Stripe.Event {
+  return {
+    id: nextId("evt"),
+    object: "event",
+    api_version: null,
+    created: Math.floor(Date.now() / 1000),
+    type,
+    data: { object },
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+  } as unknown as Stripe.Event;
+}
+
+export function signWebhook(payload: string, secret = webhookSecret): string {
+  return realStripe.webhooks.generateTestHeaderString({ payload, secret });
+}
@@ -0,0 +1,170 @@
+import { handler } from "../src/manage/manage-subscription";
+import {
+  apiEvent,
+  buildSubscription,
+  Fakes,
+  installFakes,
+  metrics,
+  tables,
+  testUser,
+} from "./fakes";
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+const manageEvent = (claims: Record<string, string> | null = testUser) =>
+  apiEvent({ claims }) as Parameters<typeof handler>[0];
+
+const portalEvent = (body: unknown) => apiEvent({ body }) as Parameters<typeof handler>[0];
+
+function storeCustomer(subscriptionId?: string) {
+  fakes.dynamo.put(tables.customers, {
+    userId: testUser.sub,
+    stripeCustomerId: "cus_existing",
+    email: testUser.email,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    subscriptionId,
+  });
+}
+
+function subscribe() {
+  const subscription = buildSubscription("cus_existing");
+  fakes.stripe.state.subscriptions.push(subscription);
+  storeCustomer(subscription.id);
+  return subscription;
+}
+
+const sessionParams = () => fakes.stripe.mock.billingPortal.sessions.create.mock.calls[0][0];
+
+describe("manage-subscription", () => {
+  it("rejects requests without a Cognito sub", async () => {
+    const result = await handler(manageEvent({ email: testUser.email }));
+
+    expect(result.statusCode).toBe(401);
+  });
+
+  it("returns 404 for users who never checked out", async () => {
+    const result = await handler(manageEvent());
+
+    expect(result.statusCode).toBe(404);
+    expect(fakes.stripe.mock.billingPortal.sessions.create).not.toHaveBeenCalled();
+  });
+
+  it("opens the billing portal for the stored customer", async () => {
+    fakes.dynamo.put(tables.customers, {
+      userId: testUser.sub,
+      stripeCustomerId: "cus_existing",
+      email: testUser.email,
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    const result = await handler(manageEvent());
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body).url).toMatch(/^https:\/\/billing\.stripe\.test\//);
+    expect(fakes.stripe.mock.billingPortal.sessions.create).toHaveBeenCalledWith({
+      customer: "cus_existing",
+      return_url: "https://app.example.test/settings",
+    });
+    expect(metrics()).toEqual({ PortalSessionCreated: 1 });
+  });
+
+  it("echoes allowed origins and falls back to the app for others", async () => {
+    const origin = (value: string) =>
+      handler({ ...manageEvent(), headers: { origin: value } }).then(
+        (result) => result.headers?.["Access-Control-Allow-Origin"]
+      );
+
+    expect(await origin("http://localhost:3000")).toBe("http://localhost:3000");
+    expect(await origin("https://evil.example.test")).toBe("https://app.example.test");
+  });
+
+  it("returns 500 when Stripe fails", async () => {
+    fakes.dynamo.put(tables.customers, {
+      userId: testUser.sub,
+      stripeCustomerId: "cus_existing",
+      email: testUser.email,
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+    fakes.stripe.mock.billingPortal.sessions.create.mockRejectedValueOnce(new Error("Stripe is down"));
+
+    const result = await handler(manageEvent());
+
+    expect(result.statusCode).toBe(500);
+    expect(metrics()).toEqual({ PortalSessionFailed: 1 });
+  });
+});
+
+describe("manage-subscription portal flows", () => {
+  it("deep-links to the payment method update and returns to an allowed path", async () => {
+    storeCustomer();
+
+    const result = await handler(
+      portalEvent({ flow: "payment_method_update", returnPath: "/billing" })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(sessionParams()).toEqual({
+      customer: "cus_existing",
+      return_url: "https://app.example.test/billing",
+      flow_data: {
+        type: "payment_method_update",
+        after_completion: {
+          type: "redirect",
+          redirect: { return_url: "https://app.example.test/billing" },
+        },
+      },
+    });
+  });
+
+  it("rejects return paths outside the allowlist and unknown flows", async () => {
+    storeCustomer();
+
+    const external = await handler(portalEvent({ returnPath: "//evil.example.test" }));
+    const flow = await handler(portalEvent({ flow: "subscription_pause" }));
+
+    expect(external.statusCode).toBe(400);
+    expect(flow.statusCode).toBe(400);
+    expect(fakes.stripe.mock.billingPortal.sessions.create).not.toHaveBeenCalled();
+  });
+
+  it("opens the cancellation flow for the current subscription", async () => {
+    const subscription = subscribe();
+
+    const result = await handler(portalEvent({ flow: "subscription_cancel" }));
+
+    expect(result.statusCode).toBe(200);
+    expect(sessionParams().flow_data).toMatchObject({
+      type: "subscription_cancel",
+      subscription_cancel: { subscription: subscription.id },
+    });
+  });
+
+  it("confirms a switch to the requested plan", async () => {
+    const subscription = subscribe();
+
+    const result = await handler(
+      portalEvent({ flow: "subscription_update_confirm", plan: "team", quantity: 5 })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(sessionParams().flow_data).toMatchObject({
+      type: "subscription_update_confirm",
+      subscription_update_confirm: {
+        subscription: subscription.id,
+        items: [{ id: subscription.items.data[0].id, price: "price_team_monthly", quantity: 5 }],
+      },
+    });
+  });
+
+  it("returns 409 for subscription flows without a subscription", async () => {
+    storeCustomer();
+
+    const result = await handler(portalEvent({ flow: "subscription_cancel" }));
+
+    expect(result.statusCode).toBe(409);
+  });
+});
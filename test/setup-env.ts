@@ -0,0 +1,56 @@
+// test/setup-env.ts
+// Handlers read their configuration when they are loaded, so this runs before
+// any test module is imported.
+import type { PriceCatalog } from "../src/checkout/price-catalog";
+import type { EntitlementConfig } from "../src/entitlements/entitlements";
+
+const priceCatalog: PriceCatalog = {
+  defaultPlan: "standard",
+  plans: {
+    standard: {
+      prices: { month: "price_monthly", year: "price_annual" },
+      defaultInterval: "month",
+      maxQuantity: 1,
+      trialDays: 14,
+      trialRequiresPaymentMethod: false,
+      allowPromotionCodes: true,
+    },
+    team: {
+      prices: { month: "price_team_monthly", year: "price_team_annual" },
+      defaultInterval: "month",
+      maxQuantity: 50,
+    },
+    credits: {
+      mode: "payment",
+      price: "price_credits",
+      maxQuantity: 10,
+    },
+  },
+};
+
+const entitlementsConfig: EntitlementConfig = {
+  rules: [
+    { priceId: "price_monthly", features: ["premium"], limits: { projects: 10 } },
+    { priceId: "price_annual", features: ["premium"], limits: { projects: 10 } },
+  ],
+};
+
+Object.assign(process.env, {
+  STRIPE_SECRET_KEY: "sk_test_fake",
+  STRIPE_WEBHOOK_SECRET: "whsec_test",
+  APP_URL: "https://app.example.test",
+  CORS_ALLOWED_ORIGINS: "https://app.example.test,http://localhost:3000",
+  PORTAL_RETURN_PATHS: "/settings,/billing",
+  CUSTOMER_TABLE: "test-customers",
+  SUBSCRIPTIONS_TABLE: "test-subscriptions",
+  EVENTS_TABLE: "test-events",
+  PURCHASES_TABLE: "test-purchases",
+  INVOICES_TABLE: "test-invoices",
+  EVENT_BUS_NAME: "test-bus",
+  COGNITO_USER_POOL_ID: "us-east-1_test",
+  WEBHOOK_QUEUE_URL: "https://sqs.us-east-1.amazonaws.com/000000000000/test-webhooks",
+  STRIPE_SYNC_FUNCTION_NAME: "test-sync",
+  DUNNING_GRACE_DAYS: "7",
+  PRICE_CATALOG: JSON.stringify(priceCatalog),
+  ENTITLEMENTS_CONFIG: JSON.stringify(entitlementsConfig),
+});
@@ -0,0 +1,9 @@
+import { captureOutput } from "./fakes/output";
+
+beforeEach(() => {
+  captureOutput();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
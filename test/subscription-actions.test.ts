@@ -0,0 +1,177 @@
+import type { Context } from "aws-lambda";
+import { handler as cancel } from "../src/subscription/cancel-subscription";
+import { handler as pause } from "../src/subscription/pause-subscription";
+import { handler as reactivate } from "../src/subscription/reactivate-subscription";
+import { handler as sync } from "../src/sync/sync-stripe-data";
+import {
+  apiEvent,
+  buildProduct,
+  buildSubscription,
+  Fakes,
+  installFakes,
+  metrics,
+  tables,
+  testUser,
+} from "./fakes";
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+  fakes.stripe.state.products.push(buildProduct("prod_pro"));
+  // The endpoints wait for the sync function; run the real one
+  fakes.lambda.respondWith("InvokeCommand", async (input) => {
+    const result = await sync(
+      JSON.parse(Buffer.from(input.Payload!).toString()),
+      {} as Context,
+      () => undefined
+    );
+    return { StatusCode: 200, Payload: Buffer.from(JSON.stringify(result)) };
+  });
+});
+
+const body = (result: { body: string }) => JSON.parse(result.body);
+const customerRecord = () => fakes.dynamo.get(tables.customers, { userId: testUser.sub });
+
+function cognitoAttributes() {
+  const inputs = fakes.cognito.inputs("AdminUpdateUserAttributesCommand");
+  const attributes = inputs[inputs.length - 1].UserAttributes ?? [];
+  return Object.fromEntries(attributes.map(({ Name, Value }) => [Name, Value]));
+}
+
+function subscribe(fields: Parameters<typeof buildSubscription>[1] = {}) {
+  const subscription = buildSubscription("cus_1", fields);
+  fakes.stripe.state.subscriptions.push(subscription);
+  fakes.dynamo.put(tables.customers, {
+    userId: testUser.sub,
+    stripeCustomerId: "cus_1",
+    email: testUser.email,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    subscriptionId: subscription.id,
+    status: subscription.status,
+    cancelAtPeriodEnd: false,
+  });
+  return subscription;
+}
+
+describe("cancel-subscription", () => {
+  it("cancels at period end, stores the survey and syncs before responding", async () => {
+    const subscription = subscribe();
+
+    const result = await cancel(
+      apiEvent({ body: { reason: "too_expensive", feedback: " Too pricey for us " } })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result)).toMatchObject({
+      subscription: { subscriptionId: subscription.id, cancelAtPeriodEnd: true },
+      synced: true,
+    });
+    const [id, params] = fakes.stripe.mock.subscriptions.update.mock.calls[0];
+    expect(id).toBe(subscription.id);
+    expect(params).toEqual({
+      cancel_at_period_end: true,
+      cancellation_details: { feedback: "too_expensive", comment: "Too pricey for us" },
+    });
+
+    expect(customerRecord()).toMatchObject({
+      cancelAtPeriodEnd: true,
+      lastCancellation: { reason: "too_expensive", feedback: "Too pricey for us" },
+    });
+    expect(cognitoAttributes()["custom:cancelAtPeriodEnd"]).toBe("true");
+    expect(metrics()).toMatchObject({ SubscriptionCanceled: 1 });
+  });
+
+  it("rejects reasons Stripe does not know", async () => {
+    subscribe();
+
+    const result = await cancel(apiEvent({ body: { reason: "bored" } }));
+
+    expect(result.statusCode).toBe(400);
+    expect(fakes.stripe.mock.subscriptions.update).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 without an active subscription", async () => {
+    subscribe({ status: "canceled" });
+
+    const result = await cancel(apiEvent({ body: {} }));
+
+    expect(result.statusCode).toBe(409);
+    expect(fakes.lambda.calls).toHaveLength(0);
+  });
+
+  it("still succeeds when the sync fails", async () => {
+    subscribe();
+    fakes.lambda.failWith("InvokeCommand", new Error("Rate exceeded"));
+
+    const result = await cancel(apiEvent({ body: {} }));
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result).synced).toBe(false);
+    expect(customerRecord()?.lastCancellation).toMatchObject({ reason: null, feedback: null });
+  });
+});
+
+describe("reactivate-subscription", () => {
+  it("undoes a scheduled cancellation", async () => {
+    subscribe({ cancel_at_period_end: true });
+
+    const result = await reactivate(apiEvent({ body: {} }));
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result).subscription.cancelAtPeriodEnd).toBe(false);
+    expect(customerRecord()?.cancelAtPeriodEnd).toBe(false);
+    expect(cognitoAttributes()["custom:cancelAtPeriodEnd"]).toBe("false");
+  });
+
+  it("returns 409 when there is nothing to undo", async () => {
+    subscribe();
+
+    const result = await reactivate(apiEvent({ body: {} }));
+
+    expect(result.statusCode).toBe(409);
+  });
+});
+
+describe("pause-subscription", () => {
+  it("pauses collection from the end of the paid period and keeps access until then", async () => {
+    const subscription = subscribe();
+
+    const result = await pause(apiEvent({ body: { months: 2 } }));
+
+    expect(result.statusCode).toBe(200);
+    const [, params] = fakes.stripe.mock.subscriptions.update.mock.calls[0];
+    const resumesAt = new Date(subscription.current_period_end * 1000);
+    resumesAt.setUTCMonth(resumesAt.getUTCMonth() + 2);
+    expect(params).toEqual({
+      pause_collection: { behavior: "void", resumes_at: resumesAt.getTime() / 1000 },
+      metadata: { pause_starts_at: subscription.current_period_end.toString() },
+    });
+    expect(customerRecord()).toMatchObject({
+      pause: { startsAt: subscription.current_period_end, resumesAt: resumesAt.getTime() / 1000 },
+      accessGranted: true,
+    });
+  });
+
+  it("ends a pause early on reactivate", async () => {
+    subscribe();
+    await pause(apiEvent({ body: { months: 1 } }));
+
+    const result = await reactivate(apiEvent({ body: {} }));
+
+    expect(result.statusCode).toBe(200);
+    expect(body(result).subscription.pause).toBeNull();
+    expect(customerRecord()?.pause).toBeNull();
+  });
+
+  it("rejects pauses outside the allowed range and canceled subscriptions", async () => {
+    subscribe({ cancel_at_period_end: true });
+
+    const tooLong = await pause(apiEvent({ body: { months: 12 } }));
+    const canceled = await pause(apiEvent({ body: { months: 1 } }));
+
+    expect(tooLong.statusCode).toBe(400);
+    expect(canceled.statusCode).toBe(409);
+    expect(fakes.stripe.mock.subscriptions.update).not.toHaveBeenCalled();
+  });
+});
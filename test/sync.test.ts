@@ -0,0 +1,497 @@
+import type {
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  Context,
+  SQSBatchResponse,
+  SQSEvent,
+} from "aws-lambda";
+import Stripe from "stripe";
+import { handler, LambdaResponse, SyncStripeEvent } from "../src/sync/sync-stripe-data";
+import {
+  apiEvent,
+  buildEvent,
+  buildProduct,
+  buildSubscription,
+  Fakes,
+  installFakes,
+  logLines,
+  metrics,
+  publishedEvents,
+  tables,
+} from "./fakes";
+
+let fakes: Fakes;
+
+const userId = "user-1";
+const stripeCustomerId = "cus_1";
+
+beforeEach(() => {
+  fakes = installFakes();
+  fakes.dynamo.put(tables.customers, {
+    userId,
+    stripeCustomerId,
+    email: "user@example.test",
+    createdAt: "2024-01-01T00:00:00.000Z",
+  });
+  fakes.stripe.state.products.push(buildProduct("prod_pro"));
+});
+
+// The handler answers each kind of event with its own result type
+function invoke(event: SQSEvent): Promise<SQSBatchResponse>;
+function invoke(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult>;
+function invoke(event: SyncStripeEvent): Promise<LambdaResponse>;
+function invoke(event: Parameters<typeof handler>[0]) {
+  return handler(event, {} as Context, () => undefined);
+}
+
+function queueEvent(...messages: unknown[]): SQSEvent {
+  return {
+    Records: messages.map((message, index) => ({
+      messageId: `message-${index}`,
+      receiptHandle: `receipt-${index}`,
+      body: typeof message === "string" ? message : JSON.stringify(message),
+      attributes: { ApproximateReceiveCount: "1" },
+    })),
+  } as unknown as SQSEvent;
+}
+
+// The webhook records every event before queueing it
+function recordEvent(event: Stripe.Event) {
+  fakes.stripe.state.events.push(event);
+  fakes.dynamo.put(tables.events, { eventId: event.id, type: event.type, status: "queued" });
+}
+
+describe("sync-stripe-data", () => {
+  it("requires a user or Stripe customer ID", async () => {
+    const result = await invoke({});
+
+    expect(result).toEqual({ statusCode: 400, error: "Customer ID is required" });
+  });
+
+  it("returns 404 for an unknown user", async () => {
+    const result = await invoke({ userId: "user-unknown" });
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it("returns 404 for a Stripe customer without a user", async () => {
+    const result = await invoke({ stripeCustomerId: "cus_unknown" });
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it("stores the subscription, entitlements and Cognito attributes", async () => {
+    const subscription = buildSubscription(stripeCustomerId);
+    fakes.stripe.state.subscriptions.push(subscription);
+
+    const result = await invoke({ userId });
+
+    expect(result.statusCode).toBe(200);
+    expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+      email: "user@example.test",
+      subscriptionId: subscription.id,
+      status: "active",
+      priceId: "price_monthly",
+      accessGranted: true,
+      entitlements: { features: ["premium"], limits: { projects: 10 } },
+      subscriptionCount: 1,
+    });
+    expect(fakes.dynamo.get(tables.subscriptions, { userId, subscriptionId: subscription.id }))
+      .toMatchObject({ status: "active", stripeCustomerId });
+
+    const [attributes] = fakes.cognito.inputs("AdminUpdateUserAttributesCommand");
+    expect(attributes.Username).toBe(userId);
+    expect(attributes.UserAttributes).toContainEqual({
+      Name: "custom:accessGranted",
+      Value: "true",
+    });
+    expect(publishedEvents(fakes.eventBridge).map((event) => event.type)).toEqual([
+      "subscription.activated",
+      "entitlements.changed",
+    ]);
+    expect(metrics()).toEqual({ SyncSucceeded: 1 });
+  });
+
+  it("does not grant access for purchases without entitlements", async () => {
+    fakes.stripe.state.products.push(buildProduct("prod_credits"));
+    fakes.dynamo.put(tables.purchases, {
+      userId,
+      purchaseId: "cs_credits",
+      stripeCustomerId,
+      plan: "credits",
+      priceId: "price_credits",
+      productId: "prod_credits",
+      quantity: 5,
+      status: "paid",
+    });
+
+    const result = await invoke({ userId });
+
+    expect(result.statusCode).toBe(200);
+    expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+      status: "none",
+      accessGranted: false,
+      entitlements: { features: [], limits: {} },
+    });
+  });
+
+  it("grants access for purchases of a plan with entitlements", async () => {
+    fakes.stripe.state.products.push(buildProduct("prod_lifetime", { features: "premium" }));
+    fakes.dynamo.put(tables.purchases, {
+      userId,
+      purchaseId: "cs_lifetime",
+      stripeCustomerId,
+      plan: "lifetime",
+      priceId: "price_lifetime",
+      productId: "prod_lifetime",
+      quantity: 1,
+      status: "paid",
+    });
+
+    await invoke({ userId });
+
+    expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+      accessGranted: true,
+      entitlements: { features: ["premium"], limits: {} },
+    });
+  });
+
+  it("looks the user up by Stripe customer ID", async () => {
+    fakes.stripe.state.subscriptions.push(buildSubscription(stripeCustomerId, { status: "canceled" }));
+
+    const result = await invoke({ stripeCustomerId });
+
+    expect(result.statusCode).toBe(200);
+    expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+      status: "canceled",
+      accessGranted: false,
+    });
+  });
+
+  it("stops granting access once a pause has started", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    fakes.stripe.state.subscriptions.push(
+      buildSubscription(stripeCustomerId, {
+        pause_collection: { behavior: "void", resumes_at: now + 86400 },
+        metadata: { pause_starts_at: (now - 60).toString() },
+      })
+    );
+
+    const result = await invoke({ userId });
+
+    expect(result.statusCode).toBe(200);
+    expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+      status: "active",
+      pause: { startsAt: now - 60, resumesAt: now + 86400 },
+      accessGranted: false,
+    });
+  });
+
+  it("discards a sync that read Stripe before the stored data was written", async () => {
+    fakes.dynamo.put(tables.customers, {
+      userId,
+      stripeCustomerId,
+      email: "user@example.test",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      status: "active",
+      syncVersion: Date.now() + 60_000,
+    });
+
+    const result = await invoke({ userId });
+
+    expect(result).toMatchObject({ statusCode: 200, stale: true });
+    expect(fakes.dynamo.get(tables.customers, { userId })?.status).toBe("active");
+    expect(fakes.cognito.calls).toEqual([]);
+    expect(metrics()).toEqual({ SyncStale: 1 });
+  });
+
+  it("publishes the changes again when publishing failed after the record was stored", async () => {
+    fakes.stripe.state.subscriptions.push(buildSubscription(stripeCustomerId));
+    fakes.eventBridge.failWith("PutEventsCommand", new Error("EventBridge is down"));
+
+    const failed = await invoke({ userId });
+
+    expect(failed).toEqual({ statusCode: 500, error: "Failed to publish subscription changes" });
+    expect(fakes.dynamo.get(tables.customers, { userId })?.status).toBe("active");
+    expect(metrics()).toMatchObject({ SubscriptionEventsPublishFailed: 1, SyncFailed: 1 });
+
+    fakes.eventBridge.respondWith("PutEventsCommand", () => ({}));
+    fakes.eventBridge.calls.length = 0;
+    const retried = await invoke({ userId });
+
+    expect(retried.statusCode).toBe(200);
+    expect(publishedEvents(fakes.eventBridge).map((event) => event.type)).toEqual([
+      "subscription.activated",
+      "entitlements.changed",
+    ]);
+    expect(fakes.dynamo.get(tables.customers, { userId })?.publishedSnapshot).toMatchObject({
+      status: "active",
+      accessGranted: true,
+    });
+  });
+
+  it("returns 502 when Stripe fails", async () => {
+    fakes.stripe.mock.subscriptions.list.mockImplementationOnce(() => {
+      throw new Error("Stripe is down");
+    });
+
+    const result = await invoke({ userId });
+
+    expect(result).toEqual({ statusCode: 502, error: "Failed to fetch Stripe data" });
+  });
+
+  describe("webhook queue", () => {
+    it("applies the event, resyncs and marks it processed", async () => {
+      const event = buildEvent("invoice.payment_failed", {
+        id: "in_1",
+        object: "invoice",
+        customer: stripeCustomerId,
+        subscription: "sub_1",
+        status: "open",
+        lines: { data: [] },
+      });
+      recordEvent(event);
+
+      const result: SQSBatchResponse = await invoke(
+        queueEvent({
+          eventId: event.id,
+          eventType: event.type,
+          stripeCustomerId,
+          correlationId: "webhook-request-1",
+        })
+      );
+
+      expect(result.batchItemFailures).toEqual([]);
+      // The webhook's request id follows the event into the sync logs
+      expect(logLines()).toContainEqual(
+        expect.objectContaining({
+          message: "Sync completed successfully",
+          correlationId: "webhook-request-1",
+          stripeEventId: event.id,
+          stripeCustomerId,
+          userId,
+        })
+      );
+      expect(fakes.dynamo.get(tables.events, { eventId: event.id })).toMatchObject({
+        status: "processed",
+        attempts: 1,
+      });
+      expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+        dunningStatus: "grace",
+        dunningFailureCount: 1,
+        status: "none",
+      });
+      expect(publishedEvents(fakes.eventBridge).map((published) => published.type)).toContain(
+        "dunning.payment_failed"
+      );
+    });
+
+    const invoiceEvent = (type: "invoice.paid" | "invoice.payment_failed", created: number) => {
+      const event = buildEvent(type, {
+        id: "in_1",
+        object: "invoice",
+        customer: stripeCustomerId,
+        subscription: "sub_1",
+        status: type === "invoice.paid" ? "paid" : "open",
+        lines: { data: [] },
+      });
+      event.created = created;
+      recordEvent(event);
+      return { eventId: event.id, eventType: event.type, stripeCustomerId };
+    };
+    const publishedTypes = () => publishedEvents(fakes.eventBridge).map((published) => published.type);
+
+    it("counts a retried payment failure once and publishes it once", async () => {
+      const failure = invoiceEvent("invoice.payment_failed", 1_700_000_000);
+
+      await invoke(queueEvent(failure));
+      await invoke(queueEvent(failure));
+
+      expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+        dunningStatus: "grace",
+        dunningFailureCount: 1,
+      });
+      expect(publishedTypes().filter((type) => type === "dunning.payment_failed")).toHaveLength(1);
+    });
+
+    it("publishes a payment failure on the retry when publishing failed", async () => {
+      const failure = invoiceEvent("invoice.payment_failed", 1_700_000_000);
+      fakes.eventBridge.failWith("PutEventsCommand", new Error("EventBridge is down"));
+
+      const failed: SQSBatchResponse = await invoke(queueEvent(failure));
+
+      expect(failed.batchItemFailures).toEqual([{ itemIdentifier: "message-0" }]);
+      expect(fakes.dynamo.get(tables.customers, { userId })?.dunningStatus).toBeUndefined();
+
+      fakes.eventBridge.respondWith("PutEventsCommand", () => ({}));
+      fakes.eventBridge.calls.length = 0;
+      await invoke(queueEvent(failure));
+
+      expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+        dunningStatus: "grace",
+        dunningFailureCount: 1,
+      });
+      const notifications = publishedEvents(fakes.eventBridge).filter(
+        (published) => published.type === "dunning.payment_failed"
+      );
+      expect(notifications).toEqual([
+        expect.objectContaining({ detail: expect.objectContaining({ failureCount: 1 }) }),
+      ]);
+    });
+
+    it("publishes a recovery on the retry when publishing failed", async () => {
+      await invoke(queueEvent(invoiceEvent("invoice.payment_failed", 1_700_000_000)));
+      const paid = invoiceEvent("invoice.paid", 1_700_003_600);
+      fakes.eventBridge.failWith("PutEventsCommand", new Error("EventBridge is down"));
+
+      await invoke(queueEvent(paid));
+
+      expect(fakes.dynamo.get(tables.customers, { userId })?.dunningStatus).toBe("grace");
+
+      fakes.eventBridge.respondWith("PutEventsCommand", () => ({}));
+      fakes.eventBridge.calls.length = 0;
+      await invoke(queueEvent(paid));
+
+      expect(fakes.dynamo.get(tables.customers, { userId })?.dunningStatus).toBeUndefined();
+      expect(publishedTypes().filter((type) => type.startsWith("dunning."))).toEqual([
+        "dunning.recovered",
+      ]);
+    });
+
+    it("ignores a payment failure delivered after a later payment", async () => {
+      const failure = invoiceEvent("invoice.payment_failed", 1_700_000_000);
+      const paid = invoiceEvent("invoice.paid", 1_700_003_600);
+
+      await invoke(queueEvent(paid));
+      await invoke(queueEvent(failure));
+
+      expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+        dunningClearedAt: 1_700_003_600,
+      });
+      expect(fakes.dynamo.get(tables.customers, { userId })?.dunningStatus).toBeUndefined();
+      expect(publishedTypes()).not.toContain("dunning.payment_failed");
+    });
+
+    it("reopens grace for a failure after the last payment", async () => {
+      await invoke(queueEvent(invoiceEvent("invoice.payment_failed", 1_700_000_000)));
+      await invoke(queueEvent(invoiceEvent("invoice.paid", 1_700_003_600)));
+      await invoke(queueEvent(invoiceEvent("invoice.payment_failed", 1_702_600_000)));
+
+      expect(fakes.dynamo.get(tables.customers, { userId })).toMatchObject({
+        dunningStatus: "grace",
+        dunningFailureCount: 1,
+        dunningFirstFailedAt: 1_702_600_000,
+      });
+      expect(publishedTypes().filter((type) => type.startsWith("dunning."))).toEqual([
+        "dunning.payment_failed",
+        "dunning.recovered",
+        "dunning.payment_failed",
+      ]);
+    });
+
+    it("publishes the trial end notification once when the sync is retried", async () => {
+      const event = buildEvent("customer.subscription.trial_will_end", {
+        id: "sub_1",
+        object: "subscription",
+        customer: stripeCustomerId,
+        trial_end: 1_700_000_000,
+      });
+      recordEvent(event);
+      const message = { eventId: event.id, eventType: event.type, stripeCustomerId };
+      fakes.stripe.mock.subscriptions.list.mockImplementationOnce(() => {
+        throw new Stripe.errors.StripeAPIError({ type: "api_error", message: "Stripe is down" });
+      });
+
+      const failed: SQSBatchResponse = await invoke(queueEvent(message));
+      const retried: SQSBatchResponse = await invoke(queueEvent(message));
+
+      expect(failed.batchItemFailures).toHaveLength(1);
+      expect(retried.batchItemFailures).toEqual([]);
+      expect(publishedTypes().filter((type) => type === "subscription.trial_will_end")).toHaveLength(1);
+    });
+
+    it("only resyncs events Stripe no longer has", async () => {
+      fakes.dynamo.put(tables.events, { eventId: "evt_expired", status: "queued" });
+
+      const result: SQSBatchResponse = await invoke(
+        queueEvent({ eventId: "evt_expired", eventType: "invoice.paid", stripeCustomerId })
+      );
+
+      expect(result.batchItemFailures).toEqual([]);
+      expect(fakes.dynamo.get(tables.events, { eventId: "evt_expired" })?.status).toBe("processed");
+      expect(fakes.dynamo.get(tables.customers, { userId })?.status).toBe("none");
+    });
+
+    it("reports failed records for retry and delays them", async () => {
+      const event = buildEvent("customer.subscription.updated", {
+        id: "sub_1",
+        object: "subscription",
+        customer: stripeCustomerId,
+      });
+      recordEvent(event);
+      fakes.stripe.mock.subscriptions.list.mockImplementationOnce(() => {
+        throw new Stripe.errors.StripeAPIError({ type: "api_error", message: "Stripe is down" });
+      });
+
+      const result: SQSBatchResponse = await invoke(
+        queueEvent(
+          { eventId: event.id, eventType: event.type, stripeCustomerId },
+          "not json"
+        )
+      );
+
+      expect(result.batchItemFailures).toEqual([
+        { itemIdentifier: "message-0" },
+        { itemIdentifier: "message-1" },
+      ]);
+      expect(fakes.dynamo.get(tables.events, { eventId: event.id })).toMatchObject({
+        status: "failed",
+        lastError: "Failed to fetch Stripe data",
+      });
+      const delays = fakes.sqs.inputs("ChangeMessageVisibilityCommand");
+      expect(delays.map((input) => input.ReceiptHandle)).toEqual(["receipt-0", "receipt-1"]);
+      expect(delays[0].VisibilityTimeout).toBeGreaterThanOrEqual(15);
+      expect(metrics()).toEqual({ SyncFailed: 2 });
+    });
+  });
+});
+
+describe("sync-stripe-data over HTTP", () => {
+  it("syncs the authorized user and ignores any user named in the body", async () => {
+    fakes.dynamo.put(tables.customers, {
+      userId: "user-2",
+      stripeCustomerId: "cus_2",
+      email: "other@example.test",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    });
+    fakes.stripe.state.subscriptions.push(buildSubscription(stripeCustomerId));
+
+    const result = await invoke(
+      apiEvent({ body: { userId: "user-2" }, headers: { origin: "http://localhost:3000" } })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.["Access-Control-Allow-Origin"]).toBe("http://localhost:3000");
+    expect(JSON.parse(result.body).data.status).toBe("active");
+    expect(fakes.dynamo.get(tables.customers, { userId })?.status).toBe("active");
+    expect(fakes.dynamo.get(tables.customers, { userId: "user-2" })?.status).toBeUndefined();
+  });
+
+  it("rejects requests without a Cognito sub", async () => {
+    const result = await invoke(apiEvent({ claims: null }));
+
+    expect(result.statusCode).toBe(401);
+    expect(fakes.stripe.mock.subscriptions.list).not.toHaveBeenCalled();
+  });
+
+  it("limits how often a user can sync", async () => {
+    await invoke(apiEvent());
+
+    const result = await invoke(apiEvent());
+
+    expect(result.statusCode).toBe(429);
+    expect(Number(result.headers?.["Retry-After"])).toBeGreaterThan(0);
+    expect(fakes.stripe.mock.subscriptions.list).toHaveBeenCalledTimes(1);
+    expect(metrics()).toMatchObject({ SyncRateLimited: 1 });
+  });
+});
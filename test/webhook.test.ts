@@ -0,0 +1,225 @@
+import { handler } from "../src/webhook/stripe-webhook";
+import {
+  apiEvent,
+  buildEvent,
+  Fakes,
+  installFakes,
+  logLines,
+  metrics,
+  signWebhook,
+  tables,
+} from "./fakes";
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+function signedRequest(event: unknown, signature?: string, secret?: string) {
+  const body = JSON.stringify(event);
+  return apiEvent({
+    body,
+    claims: null,
+    headers: { "stripe-signature": signature ?? signWebhook(body, secret) },
+  });
+}
+
+const subscriptionUpdated = () =>
+  buildEvent("customer.subscription.updated", {
+    id: "sub_1",
+    object: "subscription",
+    customer: "cus_1",
+  });
+
+describe("stripe-webhook", () => {
+  it("rejects requests without a signature", async () => {
+    const result = await handler(apiEvent({ body: "{}", claims: null }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it("rejects requests with an invalid signature", async () => {
+    const event = subscriptionUpdated();
+    const result = await handler(signedRequest(event, signWebhook("{}", "whsec_other")));
+
+    expect(result.statusCode).toBe(400);
+    expect(fakes.dynamo.items(tables.events)).toEqual([]);
+    expect(metrics()).toEqual({ WebhookSignatureFailed: 1 });
+  });
+
+  it("records and queues events it handles", async () => {
+    const event = subscriptionUpdated();
+
+    const result = await handler(signedRequest(event));
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toEqual({ received: true });
+    expect(fakes.dynamo.get(tables.events, { eventId: event.id })).toMatchObject({
+      status: "queued",
+      stripeCustomerId: "cus_1",
+      deliveries: 1,
+    });
+    const [message] = fakes.sqs.inputs("SendMessageCommand");
+    expect(JSON.parse(message.MessageBody!)).toEqual({
+      eventId: event.id,
+      eventType: event.type,
+      stripeCustomerId: "cus_1",
+      correlationId: "request-1",
+    });
+  });
+
+  it("logs with the request and event ids", async () => {
+    const event = subscriptionUpdated();
+
+    await handler(signedRequest(event));
+
+    expect(logLines()).toContainEqual(
+      expect.objectContaining({
+        message: "Received webhook event",
+        requestId: "request-1",
+        correlationId: "request-1",
+        stripeEventId: event.id,
+        stripeCustomerId: "cus_1",
+      })
+    );
+  });
+
+  it("acknowledges duplicate deliveries without queueing them again", async () => {
+    const event = subscriptionUpdated();
+    await handler(signedRequest(event));
+
+    const result = await handler(signedRequest(event));
+
+    expect(JSON.parse(result.body)).toEqual({ received: true, duplicate: true });
+    expect(fakes.sqs.inputs("SendMessageCommand")).toHaveLength(1);
+  });
+
+  it("queues an event again when the delivery that recorded it died before queueing it", async () => {
+    const event = subscriptionUpdated();
+    const claimed = (updatedAt: string) =>
+      fakes.dynamo.put(tables.events, {
+        eventId: event.id,
+        type: event.type,
+        status: "receiving",
+        deliveries: 1,
+        updatedAt,
+      });
+
+    // Still within the first delivery's run
+    claimed(new Date().toISOString());
+    const inFlight = await handler(signedRequest(event));
+
+    expect(JSON.parse(inFlight.body)).toEqual({ received: true, duplicate: true });
+    expect(fakes.sqs.calls).toEqual([]);
+
+    claimed(new Date(Date.now() - 5 * 60 * 1000).toISOString());
+    const retried = await handler(signedRequest(event));
+
+    expect(JSON.parse(retried.body)).toEqual({ received: true });
+    expect(fakes.sqs.inputs("SendMessageCommand")).toHaveLength(1);
+    expect(fakes.dynamo.get(tables.events, { eventId: event.id })).toMatchObject({
+      status: "queued",
+      deliveries: 2,
+    });
+  });
+
+  it("keeps the status the sync function set once it picked up the event", async () => {
+    const event = subscriptionUpdated();
+    fakes.sqs.respondWith("SendMessageCommand", () => {
+      fakes.dynamo.put(tables.events, {
+        ...fakes.dynamo.get(tables.events, { eventId: event.id }),
+        status: "processing",
+      });
+      return {};
+    });
+
+    await handler(signedRequest(event));
+
+    expect(fakes.dynamo.get(tables.events, { eventId: event.id })?.status).toBe("processing");
+  });
+
+  it("records but does not queue events it ignores", async () => {
+    const event = buildEvent("customer.created", { id: "cus_1", object: "customer" });
+
+    const result = await handler(signedRequest(event));
+
+    expect(JSON.parse(result.body)).toEqual({ received: true, processed: false });
+    expect(fakes.dynamo.get(tables.events, { eventId: event.id })?.status).toBe("ignored");
+    expect(fakes.sqs.calls).toEqual([]);
+  });
+
+  it("fails events without a customer", async () => {
+    const event = buildEvent("invoice.paid", { id: "in_1", object: "invoice", customer: null });
+
+    const result = await handler(signedRequest(event));
+
+    expect(result.statusCode).toBe(500);
+    expect(fakes.dynamo.get(tables.events, { eventId: event.id })?.status).toBe("failed");
+  });
+
+  it("leaves the event failed when it cannot be queued, so Stripe's retry is accepted", async () => {
+    const event = subscriptionUpdated();
+    fakes.sqs.failWith("SendMessageCommand", new Error("SQS is down"));
+
+    const failed = await handler(signedRequest(event));
+
+    expect(failed.statusCode).toBe(500);
+    expect(fakes.dynamo.get(tables.events, { eventId: event.id })).toMatchObject({
+      status: "failed",
+      lastError: "SQS is down",
+    });
+
+    fakes.sqs.respondWith("SendMessageCommand", () => ({}));
+    const retried = await handler(signedRequest(event));
+
+    expect(JSON.parse(retried.body)).toEqual({ received: true });
+    expect(fakes.dynamo.get(tables.events, { eventId: event.id })).toMatchObject({
+      status: "queued",
+      deliveries: 2,
+    });
+  });
+});
+
+describe("stripe-webhook signing secrets", () => {
+  const environment = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...environment };
+  });
+
+  it("accepts events signed with any of the active secrets during a rotation", async () => {
+    process.env.STRIPE_WEBHOOK_SECRET = "whsec_old,whsec_new";
+
+    const oldSigned = await handler(signedRequest(subscriptionUpdated(), undefined, "whsec_old"));
+    const newSigned = await handler(signedRequest(subscriptionUpdated(), undefined, "whsec_new"));
+
+    expect(oldSigned.statusCode).toBe(200);
+    expect(newSigned.statusCode).toBe(200);
+  });
+
+  it("reads the secrets from Secrets Manager and caches them", async () => {
+    process.env.STRIPE_WEBHOOK_SECRETS_SECRET_ID = "stripe-backend/test/webhook-secrets";
+    fakes.secretsManager.respondWith("GetSecretValueCommand", () => ({
+      SecretString: JSON.stringify(["whsec_stored"]),
+    }));
+
+    const first = await handler(signedRequest(subscriptionUpdated(), undefined, "whsec_stored"));
+    const second = await handler(signedRequest(subscriptionUpdated(), undefined, "whsec_stored"));
+
+    expect(first.statusCode).toBe(200);
+    expect(second.statusCode).toBe(200);
+    expect(fakes.secretsManager.inputs("GetSecretValueCommand")).toEqual([
+      { SecretId: "stripe-backend/test/webhook-secrets" },
+    ]);
+  });
+
+  it("rejects events signed with a secret that is no longer listed", async () => {
+    process.env.STRIPE_WEBHOOK_SECRET = "whsec_new";
+
+    const result = await handler(signedRequest(subscriptionUpdated(), undefined, "whsec_old"));
+
+    expect(result.statusCode).toBe(400);
+    expect(metrics()).toEqual({ WebhookSignatureFailed: 1 });
+  });
+});